@@ -0,0 +1,100 @@
+import React, { useRef } from 'react';
+import type { BlochVector } from '../types';
+
+interface BlochSphereProps {
+  vector: BlochVector;
+  label: string;
+  size: number;
+  // View direction in radians: rotation about z and tilt above the equator
+  azimuth: number;
+  elevation: number;
+  focused?: boolean;
+  onClick?: () => void;
+  // Enables drag-to-rotate
+  onRotate?: (azimuth: number, elevation: number) => void;
+}
+
+// Screen position (y up) and depth (positive towards the viewer) of a point on the unit sphere
+const project = ({ x, y, z }: BlochVector, azimuth: number, elevation: number) => {
+  const x1 = x * Math.cos(azimuth) + y * Math.sin(azimuth);
+  const y1 = -x * Math.sin(azimuth) + y * Math.cos(azimuth);
+  // The viewer looks from -y1, raised by `elevation`
+  return {
+    sx: x1,
+    sy: z * Math.cos(elevation) + y1 * Math.sin(elevation),
+    depth: z * Math.sin(elevation) - y1 * Math.cos(elevation)
+  };
+};
+
+const circlePath = (point: (t: number) => BlochVector, azimuth: number, elevation: number, radius: number) =>
+  Array.from({ length: 49 }, (_, k) => {
+    const { sx, sy } = project(point(2 * Math.PI * k / 48), azimuth, elevation);
+    return `${k === 0 ? 'M' : 'L'}${(sx * radius).toFixed(2)},${(-sy * radius).toFixed(2)}`;
+  }).join(' ');
+
+const AXES: { label: string; point: BlochVector }[] = [
+  { label: '|0⟩', point: { x: 0, y: 0, z: 1 } },
+  { label: '|1⟩', point: { x: 0, y: 0, z: -1 } },
+  { label: 'x', point: { x: 1, y: 0, z: 0 } },
+  { label: 'y', point: { x: 0, y: 1, z: 0 } }
+];
+
+// Bloch vector of a qubit's reduced state; mixed states have |r| < 1 and draw shorter
+const BlochSphere: React.FC<BlochSphereProps> = ({ vector, label, size, azimuth, elevation, focused = false, onClick, onRotate }) => {
+  const dragRef = useRef<{ x: number; y: number; azimuth: number; elevation: number } | null>(null);
+  // Large spheres get axes and labels; small ones are thumbnails
+  const large = size > 120;
+  const radius = size / 2 - (large ? 18 : 6);
+  const tip = project(vector, azimuth, elevation);
+  const length = Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!onRotate) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY, azimuth, elevation };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !onRotate) return;
+    const limit = Math.PI / 2 - 0.05;
+    onRotate(
+      drag.azimuth - (event.clientX - drag.x) * 0.01,
+      Math.max(-limit, Math.min(limit, drag.elevation + (event.clientY - drag.y) * 0.01))
+    );
+  };
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`}
+      onClick={onClick}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragRef.current = null; }}
+      className={`rounded-lg ${focused ? 'bg-gray-900 ring-2 ring-purple-400' : 'bg-gray-900/60 hover:bg-gray-900'} ${onRotate ? 'cursor-grab' : onClick ? 'cursor-pointer' : ''}`}
+    >
+      <circle r={radius} fill="none" stroke="#4A5568" />
+      <path d={circlePath(t => ({ x: Math.cos(t), y: Math.sin(t), z: 0 }), azimuth, elevation, radius)} fill="none" stroke="#4A5568" strokeDasharray="3 3" />
+      <path d={circlePath(t => ({ x: Math.cos(t), y: 0, z: Math.sin(t) }), azimuth, elevation, radius)} fill="none" stroke="#2D3748" />
+      {large && AXES.map(({ label: axis, point }) => {
+        const { sx, sy } = project(point, azimuth, elevation);
+        return (
+          <g key={axis}>
+            <line x1={0} y1={0} x2={sx * radius} y2={-sy * radius} stroke="#4A5568" strokeWidth={0.5} />
+            <text x={sx * (radius + 10)} y={-sy * (radius + 10)} fill="#A0AEC0" fontSize={10} textAnchor="middle" dominantBaseline="middle">{axis}</text>
+          </g>
+        );
+      })}
+      <line x1={0} y1={0} x2={tip.sx * radius} y2={-tip.sy * radius} stroke="#F6AD55" strokeWidth={large ? 3 : 2} opacity={tip.depth < 0 ? 0.5 : 1} />
+      <circle cx={tip.sx * radius} cy={-tip.sy * radius} r={large ? 4 : 2.5} fill="#F6AD55" opacity={tip.depth < 0 ? 0.5 : 1} />
+      <text x={-size / 2 + 4} y={-size / 2 + 12} fill="#E2E8F0" fontSize={large ? 12 : 9} fontFamily="monospace">{label}</text>
+      {large && (
+        <text x={size / 2 - 4} y={size / 2 - 6} fill="#A0AEC0" fontSize={10} fontFamily="monospace" textAnchor="end">|r| = {length.toFixed(3)}</text>
+      )}
+    </svg>
+  );
+};
+
+export default BlochSphere;
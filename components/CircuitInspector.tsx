@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { INSPECTOR_LIMITS } from '../constants';
+import { abs, arg, complex } from '../services/complex';
+import { DensityMatrix } from '../services/densitymatrix';
+import type { QuantumRegister, StateVector } from '../services/statevector';
+import type { Complex, ComplexMatrix } from '../types';
+
+type ComplexForm = 'polar' | 'cartesian';
+
+interface CircuitInspectorProps {
+  circuitIds: string[];
+  target: string;
+  onTargetChange: (id: string) => void;
+  // Unitary of the target circuit's gates, or the reason it has none
+  unitary: ComplexMatrix | string;
+  // Register holding the target circuit, shared with any circuit linked to it
+  register: QuantumRegister | null;
+  // Label of every register qubit, e.g. 'A0'
+  qubitLabels: string[];
+}
+
+const formatComplex = (value: Complex, form: ComplexForm) => {
+  if (form === 'polar') return `${abs(value).toFixed(3)}∠${arg(value).toFixed(3)}`;
+  return `${value.re.toFixed(3)}${value.im < 0 ? '-' : '+'}${Math.abs(value.im).toFixed(3)}i`;
+};
+
+// Hue encodes the phase, lightness the magnitude
+const phaseColor = (value: Complex, scale = 1) => {
+  const magnitude = Math.min(1, abs(value) / scale);
+  const hue = ((arg(value) + 2 * Math.PI) % (2 * Math.PI)) / (2 * Math.PI) * 360;
+  return `hsl(${hue.toFixed(0)}, 85%, ${(8 + 50 * magnitude).toFixed(0)}%)`;
+};
+
+// |q_{n-1} ... q_0⟩: indices are little-endian, kets are written most significant qubit first
+const ket = (index: number, numQubits: number) =>
+  `|${Array.from({ length: numQubits }, (_, k) => (index >> (numQubits - 1 - k)) & 1).join('')}⟩`;
+
+const ComplexHeatmap: React.FC<{ rows: number; columns: number; entry: (r: number, c: number) => Complex; describe: (r: number, c: number) => string }> = ({ rows, columns, entry, describe }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const cell = Math.max(2, Math.floor(320 / Math.max(rows, columns)));
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    let scale = 0;
+    for (let r = 0; r < rows; r++) for (let c = 0; c < columns; c++) scale = Math.max(scale, abs(entry(r, c)));
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < columns; c++) {
+        ctx.fillStyle = phaseColor(entry(r, c), scale || 1);
+        ctx.fillRect(c * cell, r * cell, cell, cell);
+      }
+    }
+  });
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const c = Math.floor((event.clientX - rect.left) / rect.width * columns);
+    const r = Math.floor((event.clientY - rect.top) / rect.height * rows);
+    setHovered(r >= 0 && r < rows && c >= 0 && c < columns ? describe(r, c) : null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={columns * cell}
+        height={rows * cell}
+        className="max-w-full border border-gray-700"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHovered(null)}
+      />
+      <div className="text-xs font-mono text-gray-300 h-4 mt-1">{hovered ?? 'Color: fase; brillo: módulo'}</div>
+    </div>
+  );
+};
+
+// Unitary of a circuit and the current state of its register, as tables and heatmaps
+const CircuitInspector: React.FC<CircuitInspectorProps> = ({ circuitIds, target, onTargetChange, unitary, register, qubitLabels }) => {
+  const [view, setView] = useState<'state' | 'unitary'>('state');
+  const [form, setForm] = useState<ComplexForm>('cartesian');
+  // Basis states below this probability are hidden
+  const [threshold, setThreshold] = useState(0.001);
+
+  const numQubits = register?.numQubits ?? 0;
+  const dimension = 1 << numQubits;
+  const mixed = register instanceof DensityMatrix;
+  const amplitude = (r: number, c = 0): Complex => {
+    if (register instanceof DensityMatrix) return complex(register.re[r * dimension + c], register.im[r * dimension + c]);
+    const state = register as StateVector;
+    return complex(state.re[r], state.im[r]);
+  };
+
+  const probabilities = register?.probabilities() ?? new Float64Array(0);
+  const visible: number[] = [];
+  for (let i = 0; i < dimension && visible.length < INSPECTOR_LIMITS.rows; i++) {
+    if (probabilities[i] >= threshold) visible.push(i);
+  }
+  // Statevector heatmaps fold the 2^n amplitudes into a near-square grid
+  const foldBits = Math.ceil(numQubits / 2);
+
+  const renderUnitary = () => {
+    if (typeof unitary === 'string') return <p className="text-sm text-gray-500">{unitary}</p>;
+    const size = unitary.re.length;
+    const n = Math.log2(size);
+    const entry = (r: number, c: number) => complex(unitary.re[r][c], unitary.im[r][c]);
+    return (
+      <div className="space-y-3">
+        <ComplexHeatmap rows={size} columns={size} entry={entry} describe={(r, c) => `⟨${ket(r, n).slice(1, -1)}|U${ket(c, n)} = ${formatComplex(entry(r, c), form)}`} />
+        {size <= 8 && (
+          <div className="overflow-x-auto">
+            <table className="text-xs font-mono">
+              <thead>
+                <tr>
+                  <th />
+                  {Array.from({ length: size }, (_, c) => <th key={c} className="px-1 text-gray-400">{ket(c, n)}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {Array.from({ length: size }, (_, r) => (
+                  <tr key={r}>
+                    <th className="pr-2 text-gray-400">{ket(r, n)}</th>
+                    {Array.from({ length: size }, (_, c) => (
+                      <td key={c} className={`px-1 ${abs(entry(r, c)) < 1e-9 ? 'text-gray-600' : 'text-gray-200'}`}>{formatComplex(entry(r, c), form)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderState = () => {
+    if (!register) return <p className="text-sm text-gray-500">No hay ningún registro que inspeccionar.</p>;
+    return (
+      <div className="space-y-3">
+        <p className="text-xs text-gray-400">
+          {mixed ? 'Matriz de densidad' : 'Vector de estado'} de {numQubits} qubits, kets escritos como |{[...qubitLabels].reverse().join(' ')}⟩.
+        </p>
+        {mixed && numQubits <= INSPECTOR_LIMITS.matrix_qubits && (
+          <ComplexHeatmap rows={dimension} columns={dimension} entry={amplitude} describe={(r, c) => `ρ[${ket(r, numQubits)}, ${ket(c, numQubits)}] = ${formatComplex(amplitude(r, c), form)}`} />
+        )}
+        {!mixed && numQubits <= 2 * INSPECTOR_LIMITS.matrix_qubits && (
+          <ComplexHeatmap
+            rows={1 << (numQubits - foldBits)}
+            columns={1 << foldBits}
+            entry={(r, c) => amplitude((r << foldBits) | c)}
+            describe={(r, c) => `${ket((r << foldBits) | c, numQubits)}: ${formatComplex(amplitude((r << foldBits) | c), form)}`}
+          />
+        )}
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="pr-2">Base</th>
+                <th className="pr-2">{mixed ? 'ρ diagonal' : 'Amplitud'}</th>
+                <th>Probabilidad</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(i => (
+                <tr key={i}>
+                  <td className="pr-2 text-gray-300">{ket(i, numQubits)}</td>
+                  <td className="pr-2 text-gray-200">{formatComplex(amplitude(i, i), form)}</td>
+                  <td className="text-purple-300">{(probabilities[i] * 100).toFixed(2)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === INSPECTOR_LIMITS.rows && (
+            <p className="text-xs text-gray-500 mt-1">Se muestran los primeros {INSPECTOR_LIMITS.rows} estados; sube el umbral para filtrar más.</p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <select value={target} onChange={(e) => onTargetChange(e.target.value)} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+          {circuitIds.map(id => <option key={id} value={id}>Circuito {id}</option>)}
+        </select>
+        <select value={view} onChange={(e) => setView(e.target.value as 'state' | 'unitary')} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+          <option value="state">Estado actual</option>
+          <option value="unitary">Unitaria</option>
+        </select>
+        <select value={form} onChange={(e) => setForm(e.target.value as ComplexForm)} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+          <option value="cartesian">Cartesiana (a+bi)</option>
+          <option value="polar">Polar (r∠φ)</option>
+        </select>
+        {view === 'state' && (
+          <label className="flex items-center gap-1 text-gray-400">
+            P ≥
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.001}
+              value={threshold}
+              onChange={(e) => setThreshold(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+              className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+            />
+          </label>
+        )}
+      </div>
+      {view === 'unitary' ? renderUnitary() : renderState()}
+    </div>
+  );
+};
+
+export default CircuitInspector;
@@ -1,9 +1,28 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Play, Pause, RotateCcw, Cpu, Zap, Network, Save, Upload, Download, Sparkles, Eraser } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ScatterChart, Scatter, ReferenceLine } from 'recharts';
+import { Play, Pause, RotateCcw, Cpu, Zap, Network, Save, Upload, Download, Sparkles, Eraser, BarChart3, Send, Undo2, Redo2 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ScatterChart, Scatter, ReferenceLine, BarChart, Bar } from 'recharts';
 import { GoogleGenAI } from "@google/genai";
-import { createWormholeFragmentationSystem, reconstructWithWormholeGeometry } from '../services/wormhole';
-import type { Circuit as CircuitType, Qubit as QubitType, ReconstructionResult } from '../types';
+import BlochSphere from './BlochSphere';
+import CircuitInspector from './CircuitInspector';
+import { compareMetricFamilies, createWormholeFragmentationSystem, FRAGMENT_SAMPLING_LABELS, fragmentationConfigErrors, reconstructWithWormholeGeometry, wormholeConfigErrors } from '../services/wormhole';
+import { METRIC_FAMILIES, metricConfigErrors, usesMetricExpressions } from '../services/metrics';
+import { TUNNELING_METHOD_LABELS } from '../services/tunneling';
+import { ENTANGLEMENT_LIMITS, INSPECTOR_LIMITS, MAX_CIRCUITS, QUBIT_LIMITS, SHOT_LIMITS, TELEPORTATION_CONFIG, TELEPORTATION_QUBIT_LIMITS, TEMPLATE_LIMITS, FRAGMENTATION_CONFIG, FRAGMENTATION_LIMITS, METRIC_CONFIG, METRIC_LIMITS, WORMHOLE_CONFIG, WORMHOLE_CONFIG_LIMITS } from '../constants';
+import { StateVector, GATES, phaseGate, rotationX, rotationY, rotationZ, sampleShots, singleQubitGate, type GateMatrix, type QuantumRegister } from '../services/statevector';
+import { DensityMatrix } from '../services/densitymatrix';
+import { abs, abs2, arg, complex, fromPolar } from '../services/complex';
+import { NOISE_CHANNEL_LABELS, applyReadoutError, createNoiseModel, krausOperators, probabilityOverInterval } from '../services/noise';
+import { DEFAULT_ROTATION_ANGLE, MULTI_QUBIT_GATES, SINGLE_QUBIT_GATES, appendOperation, createBaseTimeline, gateQubitRoles, hasClassicalControl, measurementBit, operationQubits, sortTimeline, timelineAngleErrors, timelineFromSelectedGates, timelineParameters, trimTimeline, usesAngle } from '../services/timeline';
+import { evaluateExpression, expressionError } from '../services/expression';
+import { SHOT_STREAM, createRng, randomSeed, type Rng } from '../services/random';
+import { exportQasm, parseQasm, type QasmVersion } from '../services/qasm';
+import { runTeleportationProtocol } from '../services/teleportation';
+import { entanglementReport } from '../services/entanglement';
+import { bandAt, circuitDiagramLayout, droppedQubits, drawnQubits, moveOperation, operationAt, operationBounds, placeOperation, slotAt, wireAt, wireY as bandWireY, type CircuitBand, type DiagramSlot } from '../services/circuitDiagram';
+import { createHistory, describeChange, pushHistory, sameSnapshot } from '../services/history';
+import { CIRCUIT_TEMPLATES, buildTemplate, templateWidthError, type CircuitTemplate } from '../services/templates';
+import { LINK_OPERATION_LABELS, defaultInterCircuitLinks, describeLink, registerWidths, sameLink, trimLinks } from '../services/links';
+import type { BlochVector, Circuit as CircuitType, CircuitConfig, CircuitTemplateOptions, ClassicalCondition, ComplexMatrix, ConfigurationHistory, ConfigurationSnapshot, EntanglementReport, FragmentationConfig, FragmentSampling, GateName, GateOperation, InterCircuitLink, InterCircuitLinkOperation, MetricComparison, MetricConfig, MetricFamily, NoiseChannel, NoiseChannelType, NoiseModel, Qubit as QubitType, ReconstructionResult, ShotHistogram, ShotResults, TeleportationConfig, TeleportationResult, TunnelingMethod, WormholeConfig } from '../types';
 
 const SimpleMarkdown: React.FC<{ text: string }> = ({ text }) => {
   const parts = text.split(/(\*\*.*?\*\*)/g).filter(part => part);
@@ -38,6 +57,105 @@ const AiAnalysisDisplay: React.FC<{ content: string }> = ({ content }) => {
 };
 
 
+// Horizontal position of a qubit in the flow field, as a fraction of the domain width.
+// Narrow circuits keep the original 0.12 spacing; wider ones are squeezed into [0.15, 0.85].
+const qubitSpacing = (numQubits: number) => numQubits > 1 ? Math.min(0.12, 0.7 / (numQubits - 1)) : 0.12;
+const qubitLayoutX = (qubitIdx: number, numQubits: number) => 0.15 + qubitSpacing(numQubits) * qubitIdx;
+
+// Circuits are stacked in rows: the vertical centre of circuit `k` of `count`, as a fraction of the height
+const circuitLayoutY = (k: number, count: number) => (k + 0.5) / count;
+
+const CIRCUIT_IDS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Accent classes per circuit position, spelled out in full so Tailwind picks them up
+const CIRCUIT_ACCENTS = [
+  { text: 'text-purple-300', button: 'bg-purple-600 hover:bg-purple-700' },
+  { text: 'text-green-300', button: 'bg-green-600 hover:bg-green-700' },
+  { text: 'text-sky-300', button: 'bg-sky-600 hover:bg-sky-700' },
+  { text: 'text-amber-300', button: 'bg-amber-600 hover:bg-amber-700' },
+  { text: 'text-rose-300', button: 'bg-rose-600 hover:bg-rose-700' },
+  { text: 'text-teal-300', button: 'bg-teal-600 hover:bg-teal-700' }
+];
+
+// Base timeline for the circuit in position `k`: Rz on the even qubits of A, C, ... and the odd ones of B, D, ...
+const createCircuitConfig = (id: string, k: number, numQubits = QUBIT_LIMITS.default): CircuitConfig => ({
+  id,
+  numQubits,
+  timeline: createBaseTimeline(numQubits, Array.from({ length: numQubits }, (_, q) => q).filter(q => q % 2 === k % 2))
+});
+
+// Glow colour (r, g, b) of each kind of inter-circuit link
+const LINK_COLORS: Record<InterCircuitLinkOperation, [number, number, number]> = {
+  bell: [100, 200, 255],
+  cnot: [255, 100, 255],
+  cz: [255, 170, 80]
+};
+
+// Chart rows for the `limit` most frequent bitstrings of a histogram, most frequent first
+const HISTOGRAM_BARS = 16;
+const histogramData = (histogram: ShotHistogram, limit = HISTOGRAM_BARS) =>
+  Object.entries(histogram)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([bitstring, count]) => ({ bitstring, count }));
+
+// Entanglement measures may be unavailable for subsystems too wide to diagonalize
+const formatMeasure = (value: number | null) => (value === null ? '—' : value.toFixed(3));
+
+// Wormhole parameters the physics panel edits: the ones the geometry, tunneling and Majorana field depend on
+const WORMHOLE_FIELDS: { key: keyof WormholeConfig; label: string; unit: string }[] = [
+  { key: 'majorana_mass', label: 'Masa de Majorana', unit: 'kg' },
+  { key: 'curvature_coupling', label: 'Acoplamiento a la curvatura ξ', unit: '' },
+  { key: 'dark_energy', label: 'Energía oscura', unit: 'J' },
+  { key: 'wormhole_distance', label: 'Radio de la garganta', unit: 'm' },
+  { key: 'teleport_time', label: 'Tiempo de evolución', unit: 's' },
+  { key: 'num_points', label: 'Puntos de simulación', unit: '' }
+];
+
+type WormholeDraft = Record<keyof WormholeConfig, string>;
+
+const wormholeDraftFor = (config: WormholeConfig) =>
+  Object.fromEntries(Object.entries(config).map(([key, value]) => [key, String(value)])) as WormholeDraft;
+
+// Blank fields parse as NaN rather than 0, so validation rejects them
+const parseWormholeDraft = (draft: WormholeDraft) =>
+  Object.fromEntries(Object.entries(draft).map(([key, text]) => [key, text.trim() === '' ? NaN : Number(text)])) as unknown as WormholeConfig;
+
+const METRIC_COLORS: Record<MetricFamily, string> = {
+  ellis: '#B794F4',
+  morris_thorne: '#63B3ED',
+  thin_shell: '#F6AD55',
+  teo: '#68D391'
+};
+
+// r/b0 against z/b0 for every compared family, thinned to about 100 points
+const metricProfileData = (comparison: MetricComparison[], throatRadius: number) => {
+  const length = comparison[0]?.throat_geometry.length ?? 0;
+  const stride = Math.max(1, Math.ceil(length / 100));
+  return Array.from({ length: Math.ceil(length / stride) }, (_, k) => ({
+    z: comparison[0].throat_geometry[k * stride].z / throatRadius,
+    ...Object.fromEntries(comparison.map(({ family, throat_geometry }) => [family, throat_geometry[k * stride].radius / throatRadius]))
+  }));
+};
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const superscript = (n: number) => String(n).replace(/\d/g, d => SUPERSCRIPT_DIGITS[Number(d)]);
+
+// Gate editor input: the first `gateQubitRoles(gate).length` entries of `qubits` are used, controls first
+// `bit` is where an M writes its outcome; `condition` gates any operation on a classical bit
+type GateDraft = { gate: GateName; qubits: number[]; column: string; angle: string; unitary: GateName; bit: number; condition: ClassicalCondition | null };
+
+const DEFAULT_GATE_DRAFT: GateDraft = { gate: 'H', qubits: [0, 1, 2], column: '', angle: DEFAULT_ROTATION_ANGLE, unitary: 'X', bit: 0, condition: null };
+
+// What the pointer is over in the circuit diagram: an operation, or a gate about to be placed
+// (`qubits` is null when it does not fit there)
+type DiagramHover = { circuit: string; op?: GateOperation; preview?: { gate: GateName; qubits: number[] | null; slot: DiagramSlot } };
+
+// Pointer drag in the circuit diagram: moving an operation, or drawing a multi-qubit gate from wire `from`
+type DiagramDrag =
+  | { kind: 'move'; circuit: string; op: GateOperation; wire: number; moved: boolean }
+  | { kind: 'draw'; circuit: string; gate: GateName; from: number };
+
 const QuantumWormholeSimulator = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const circuitCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -51,16 +169,39 @@ const QuantumWormholeSimulator = () => {
   const ACTIVE_LAYER = 4;
   
   const [framework, setFramework] = useState<QuantumLaminarFlow | null>(null);
-  const [quantumCircuitA, setQuantumCircuitA] = useState<QuantumCircuit | null>(null);
-  const [quantumCircuitB, setQuantumCircuitB] = useState<QuantumCircuit | null>(null);
-  const [qubitStatesA, setQubitStatesA] = useState<any[]>([]);
-  const [qubitStatesB, setQubitStatesB] = useState<any[]>([]);
-  const [measurementResultsA, setMeasurementResultsA] = useState<number[]>([]);
-  const [measurementResultsB, setMeasurementResultsB] = useState<number[]>([]);
-  const [interCircuitEntanglement, setInterCircuitEntanglement] = useState<number[][]>([]);
+  // Simulated circuits and their latest per-qubit readouts, in the order of `circuitConfigs`
+  const [quantumCircuits, setQuantumCircuits] = useState<QuantumCircuit[]>([]);
+  const [qubitStates, setQubitStates] = useState<any[][]>([]);
+  const [measurementResults, setMeasurementResults] = useState<number[][]>([]);
+  // Histograms of the last "run N shots", sampled without collapsing the live state
+  const [shotCount, setShotCount] = useState(SHOT_LIMITS.default);
+  // Shots taken so far while a re-running batch is in progress; bumping shotRunRef abandons it
+  const [shotProgress, setShotProgress] = useState<number | null>(null);
+  const shotRunRef = useRef(0);
+  const [shotResults, setShotResults] = useState<ShotResults | null>(null);
+  // Seed of the generator behind every random draw (measurements, noise, streamlines); saved with the state
+  const [rngSeed, setRngSeed] = useState(randomSeed);
+  const rngRef = useRef<Rng>(createRng(rngSeed));
   const [metricsHistory, setMetricsHistory] = useState<{ time: number; streamlineCoherence: number; }[]>([]);
   const [phaseVector, setPhaseVector] = useState({ x: 0, y: 0 });
   const [reconstructionData, setReconstructionData] = useState<ReconstructionResult | null>(null);
+  const [entanglementData, setEntanglementData] = useState<EntanglementReport | null>(null);
+  // Wormhole teleportation protocol settings and its last result; the scrambler's couplings come from rngSeed
+  const [teleportationConfig, setTeleportationConfig] = useState<TeleportationConfig>(TELEPORTATION_CONFIG);
+  // Wormhole that fragmentation and reconstruction run on, and the physics panel's text for it
+  const [wormholeConfig, setWormholeConfig] = useState<WormholeConfig>(WORMHOLE_CONFIG);
+  const [wormholeDraft, setWormholeDraft] = useState<WormholeDraft>(() => wormholeDraftFor(WORMHOLE_CONFIG));
+  // Metric the throat is built from, its draft in the panel, and the last run of every family side by side
+  const [wormholeMetric, setWormholeMetric] = useState<MetricConfig>(METRIC_CONFIG);
+  const [metricDraft, setMetricDraft] = useState<MetricConfig>(METRIC_CONFIG);
+  const [metricComparison, setMetricComparison] = useState<MetricComparison[] | null>(null);
+  // How fragments' transmission through the throat is computed
+  const [tunnelingMethod, setTunnelingMethod] = useState<TunnelingMethod>('transfer_matrix');
+  // How the circuits are split into fragments, and its draft in the panel; random draws come from rngSeed
+  const [fragmentation, setFragmentation] = useState<FragmentationConfig>(FRAGMENTATION_CONFIG);
+  const [fragmentationDraft, setFragmentationDraft] = useState<FragmentationConfig>(FRAGMENTATION_CONFIG);
+  const [teleportationData, setTeleportationData] = useState<TeleportationResult | null>(null);
+  const [isTeleporting, setIsTeleporting] = useState(false);
 
   // AI Analysis State
   const [aiAnalysis, setAiAnalysis] = useState('');
@@ -71,279 +212,377 @@ const QuantumWormholeSimulator = () => {
   const [generatedSeed, setGeneratedSeed] = useState('');
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportData, setExportData] = useState('');
+  // OpenQASM import/export text, the dialect to write and the circuit imports go into
+  const [qasmText, setQasmText] = useState('');
+  const [qasmVersion, setQasmVersion] = useState<QasmVersion>(2);
+  const [qasmTarget, setQasmTarget] = useState('A');
   
   // Tooltip state for interactive canvas
   const [tooltip, setTooltip] = useState<{ x: number; y: number; content: string } | null>(null);
-
-
-  // Gate selection states
-  const initialGates = {
-    hadamard: [false, false, false, false, false],
-    pauliX: [false, false, false, false, false],
-    pauliY: [false, false, false, false, false],
-    pauliZ: [false, false, false, false, false],
-    rotationX: [false, false, false, false, false],
-    rotationY: [false, false, false, false, false],
-    rotationZ: [false, false, false, false, false],
-    tGate: [false, false, false, false, false],
-    swap: [false, false, false, false], // For swapping 0-1, 1-2, 2-3, 3-4
-    ccnot: [false, false, false], // For CCNOT(0,1,2), (1,2,3), (2,3,4)
-  };
-
-  const [selectedGatesA, setSelectedGatesA] = useState({
-    ...initialGates,
-    hadamard: [true, true, true, true, true],
-    rotationZ: [true, false, true, false, true],
-  });
+  // Qubit shown large in the Bloch sphere panel (e.g. 'A0') and the view it is drawn from
+  const [focusedQubit, setFocusedQubit] = useState<string | null>(null);
+  const [blochView, setBlochView] = useState({ azimuth: Math.PI / 6, elevation: 0.35 });
+  const blochPanelRef = useRef<HTMLDivElement>(null);
+  // Circuit shown in the inspector and the unitary its gates implement (or why there is none)
+  const [inspectorTarget, setInspectorTarget] = useState('A');
+  const [inspectorUnitary, setInspectorUnitary] = useState<ComplexMatrix | string>('');
+  // Circuit the template gallery loads into and the templates' parameters
+  const [templateTarget, setTemplateTarget] = useState('A');
+  const [templateOptions, setTemplateOptions] = useState<CircuitTemplateOptions>({ marked: 0, depth: TEMPLATE_LIMITS.random_depth });
+
+
+  // Circuits in the system, each with its width and gate timeline (ordered operations with targets, controls and time column)
+  const [circuitConfigs, setCircuitConfigs] = useState<CircuitConfig[]>(() => [createCircuitConfig('A', 0)]);
+  // Gate editor input per circuit id
+  const [gateDrafts, setGateDrafts] = useState<Record<string, GateDraft>>({});
+  // Values for the named parameters used in rotation angles; unbound names evaluate to 0
+  const [parameterBindings, setParameterBindings] = useState<Record<string, number>>({});
   
-  const [selectedGatesB, setSelectedGatesB] = useState({
-    ...initialGates,
-    hadamard: [true, true, true, true, true],
-    rotationZ: [false, true, false, true, false],
+  // User-defined entangling links between qubits of different circuits, applied when enabled
+  const [interCircuitEntanglementEnabled, setInterCircuitEntanglementEnabled] = useState(false);
+  const [interCircuitEntanglement, setInterCircuitEntanglement] = useState<InterCircuitLink[]>([]);
+  const [linkDraft, setLinkDraft] = useState<InterCircuitLink>({ from: 'A', fromQubit: 0, to: 'B', toQubit: 0, operation: 'bell' });
+
+  // Mixed-state simulation and noise channels
+  const [densityMatrixMode, setDensityMatrixMode] = useState(false);
+  const [noiseModel, setNoiseModel] = useState<NoiseModel>(createNoiseModel());
+  const [noiseDraft, setNoiseDraft] = useState<{ type: NoiseChannelType; scope: 'qubit' | 'gate'; target: string; probability: number }>({
+    type: 'depolarizing',
+    scope: 'qubit',
+    target: 'A0',
+    probability: 0.05
   });
   
-  const [circuitBEnabled, setCircuitBEnabled] = useState(false);
-  const [interCircuitEntanglementEnabled, setInterCircuitEntanglementEnabled] = useState(false);
+  // Undo/redo over the configuration a seed saves. Handlers that know what they did name their
+  // entry through historyLabelRef; other edits are labelled by what changed.
+  const configurationSnapshot: ConfigurationSnapshot = {
+    circuits: circuitConfigs,
+    links: interCircuitEntanglement,
+    interCircuit: interCircuitEntanglementEnabled,
+    densityMatrix: densityMatrixMode,
+    noiseModel,
+    parameterBindings,
+    rngSeed,
+    teleportationConfig,
+    wormholeConfig,
+    metric: wormholeMetric,
+    tunnelingMethod,
+    fragmentation
+  };
+  const [history, setHistory] = useState<ConfigurationHistory>(() => createHistory(configurationSnapshot));
+  const historyLabelRef = useRef<string | null>(null);
+
+  // Circuit diagram editing: the palette gate placed by clicking, the selected operation, the
+  // hover or placement preview, and the drag in progress (from the palette or on the canvas)
+  const [diagramTool, setDiagramTool] = useState<GateName | null>(null);
+  const [diagramSelection, setDiagramSelection] = useState<{ circuit: string; op: GateOperation } | null>(null);
+  const [diagramHover, setDiagramHover] = useState<DiagramHover | null>(null);
+  const diagramDragRef = useRef<DiagramDrag | null>(null);
+  const paletteGateRef = useRef<GateName | null>(null);
   
   const animationRef = useRef<number | null>(null);
 
-  // Available quantum gates
-  const GATE_TYPES: { [key: string]: string } = {
-    hadamard: 'H',
-    pauliX: 'X',
-    pauliY: 'Y', 
-    pauliZ: 'Z',
-    rotationX: 'Rx',
-    rotationY: 'Ry',
-    rotationZ: 'Rz',
-    tGate: 'T'
-  };
+  // Gates placeable on a timeline; their labels are also what gate-scoped noise channels attach to
+  // (after the gate, or right before the projection for M)
+  const TIMELINE_GATES: GateName[] = [...SINGLE_QUBIT_GATES, ...MULTI_QUBIT_GATES, 'M'];
 
-  // Enhanced Qubit class with more gates
+  // Qubit handle: gates act on the owning circuit's statevector register
   class Qubit {
     id: string;
-    state: number[];
-    phase: number;
+    index: number;
+    circuit: QuantumCircuit;
     entangled: boolean;
     entangledWith: (string | number)[];
     appliedGates: string[];
 
-    constructor(id: string, initialState = [1, 0]) {
+    constructor(id: string, index: number, circuit: QuantumCircuit) {
       this.id = id;
-      this.state = [...initialState];
-      this.phase = 0;
+      this.index = index;
+      this.circuit = circuit;
       this.entangled = false;
       this.entangledWith = [];
       this.appliedGates = [];
     }
 
-    hadamard() {
-      const [a, b] = this.state;
-      const sqrt2 = Math.sqrt(2);
-      this.state = [(a + b) / sqrt2, (a - b) / sqrt2];
-      this.appliedGates.push('H');
+    get registerIndex() {
+      return this.circuit.offset + this.index;
+    }
+
+    // Relative phase of |1⟩ against |0⟩, i.e. the azimuth of the qubit's Bloch vector
+    get phase() {
+      return arg(this.circuit.register.coherence(this.registerIndex));
+    }
+
+    applyGate(matrix: GateMatrix, label: string) {
+      this.circuit.register.applySingleQubitGate(this.registerIndex, matrix);
+      this.circuit.applyGateNoise(label, [this.index]);
+      this.appliedGates.push(label);
       return this;
     }
 
+    hadamard() {
+      return this.applyGate(GATES.H, 'H');
+    }
+
     pauliX() {
-      this.state = [this.state[1], this.state[0]];
-      this.appliedGates.push('X');
-      return this;
+      return this.applyGate(GATES.X, 'X');
     }
 
     pauliY() {
-      const [a, b] = this.state;
-      this.state = [-b, a];
-      this.appliedGates.push('Y');
-      return this;
+      return this.applyGate(GATES.Y, 'Y');
     }
 
     pauliZ() {
-      this.state = [this.state[0], -this.state[1]];
-      this.appliedGates.push('Z');
-      return this;
+      return this.applyGate(GATES.Z, 'Z');
     }
 
     rotationX(theta = Math.PI/4) {
-      const [a, b] = this.state;
-      const cosHalf = Math.cos(theta/2);
-      const sinHalf = Math.sin(theta/2);
-      this.state = [a * cosHalf - b * sinHalf, a * sinHalf + b * cosHalf];
-      this.appliedGates.push('Rx');
-      return this;
+      return this.applyGate(rotationX(theta), 'Rx');
     }
 
     rotationY(theta = Math.PI/4) {
-      const [a, b] = this.state;
-      const cosHalf = Math.cos(theta/2);
-      const sinHalf = Math.sin(theta/2);
-      this.state = [a * cosHalf - b * sinHalf, a * sinHalf + b * cosHalf];
-      this.appliedGates.push('Ry');
-      return this;
+      return this.applyGate(rotationY(theta), 'Ry');
     }
 
     rotationZ(theta = Math.PI/4) {
-      const [a, b] = this.state;
-      const cosHalf = Math.cos(theta/2);
-      const sinHalf = Math.sin(theta/2);
-      this.state = [a * cosHalf, b * cosHalf + b * sinHalf * Math.sin(Math.PI/2)];
-      this.phase += theta;
-      this.appliedGates.push('Rz');
-      return this;
+      return this.applyGate(rotationZ(theta), 'Rz');
     }
 
     tGate() {
-      const phase = Math.PI/4;
-      this.state = [this.state[0], this.state[1] * Math.cos(phase) + this.state[1] * Math.sin(phase)];
-      this.phase += phase;
-      this.appliedGates.push('T');
-      return this;
+      return this.applyGate(GATES.T, 'T');
+    }
+
+    // Pure single-qubit state with the same populations and relative phase as the reduced state
+    getAmplitudes() {
+      const prob1 = this.getProbability1();
+      const coherence = this.circuit.register.coherence(this.registerIndex);
+      return {
+        alpha: complex(Math.sqrt(1 - prob1)),
+        beta: fromPolar(Math.sqrt(prob1), abs(coherence) > 1e-12 ? arg(coherence) : 0)
+      };
     }
 
+    // Gate noise on M acts just before the projection; readout errors then act on the outcome
     measure() {
-      const prob0 = Math.abs(this.state[0]) ** 2;
-      const prob1 = Math.abs(this.state[1]) ** 2;
-      
-      const random = Math.random();
-      if (random < prob0) {
-        this.state = [1, 0];
-        return 0;
-      } else {
-        this.state = [0, 1];
-        return 1;
-      }
+      this.circuit.applyGateNoise('M', [this.index]);
+      const [result] = this.circuit.register.measure([this.registerIndex], this.circuit.rng);
+      return this.circuit.applyReadoutNoise(this.index, result);
     }
 
     getProbability1() {
-      return Math.abs(this.state[1]) ** 2;
+      return this.circuit.register.probabilityOfOne(this.registerIndex);
     }
 
     getProbability0() {
-      return Math.abs(this.state[0]) ** 2;
+      return 1 - this.getProbability1();
+    }
+
+    // tr(ρ²) of the reduced single-qubit state: 1 when pure, 1/2 when maximally mixed
+    getPurity() {
+      const prob1 = this.getProbability1();
+      return (1 - prob1) ** 2 + prob1 ** 2 + 2 * abs2(this.circuit.register.coherence(this.registerIndex));
+    }
+
+    // From the reduced state ρ = (I + xX + yY + zZ)/2, where ⟨1|ρ|0⟩ = (x + iy)/2
+    getBlochVector(): BlochVector {
+      const coherence = this.circuit.register.coherence(this.registerIndex);
+      return { x: 2 * coherence.re, y: 2 * coherence.im, z: 1 - 2 * this.getProbability1() };
     }
 
     reset() {
-      this.state = [1, 0];
-      this.phase = 0;
       this.entangled = false;
       this.entangledWith = [];
       this.appliedGates = [];
     }
   }
 
-  type SelectedGates = typeof selectedGatesA;
+  const toDensityMatrix = (register: QuantumRegister) =>
+    register instanceof DensityMatrix ? register : DensityMatrix.fromStateVector(register as StateVector);
 
   class QuantumCircuit {
     numQubits: number;
     circuitId: string;
     qubits: Qubit[];
+    register: QuantumRegister;
+    offset: number;
+    noiseModel: NoiseModel | null;
+    parameters: Record<string, number>;
     gates: any[];
     measurementHistory: { timestamp: number; results: number[]; probabilities: number[]; }[];
-    selectedGates: SelectedGates | null;
-    interCircuitConnections: number[][];
-
-    constructor(numQubits = 5, circuitId = 'A', selectedGates: SelectedGates | null = null) {
+    timeline: GateOperation[] | null;
+    interCircuitLinks: InterCircuitLink[];
+    // Outcomes of the timeline's mid-circuit measurements, by classical bit
+    classicalBits: number[];
+    rng: Rng;
+
+    // Passing a noise model switches the circuit to density-matrix (mixed-state) simulation.
+    // Measurements and readout errors draw from `rng`, so a seeded generator makes runs reproducible.
+    constructor(numQubits = QUBIT_LIMITS.default, circuitId = 'A', timeline: GateOperation[] | null = null, noiseModel: NoiseModel | null = null, parameters: Record<string, number> = {}, rng: Rng = Math.random) {
       this.numQubits = numQubits;
       this.circuitId = circuitId;
+      this.rng = rng;
       this.qubits = [];
+      // Shared with another circuit once inter-circuit entanglement joins the two registers
+      this.noiseModel = noiseModel;
+      this.parameters = parameters;
+      this.register = this.createRegister();
+      this.offset = 0;
       this.gates = [];
       this.measurementHistory = [];
-      this.selectedGates = selectedGates;
-      this.interCircuitConnections = [];
+      this.timeline = timeline;
+      this.interCircuitLinks = [];
+      this.classicalBits = [];
       
       for (let i = 0; i < numQubits; i++) {
-        this.qubits.push(new Qubit(`${circuitId}${i}`));
+        this.qubits.push(new Qubit(`${circuitId}${i}`, i, this));
       }
       
       this.setupCircuit();
     }
 
-    setupCircuit() {
-      if (!this.selectedGates) return;
-      
-      this.qubits.forEach((qubit, i) => {
-        if (this.selectedGates!.hadamard[i]) qubit.hadamard();
-        if (this.selectedGates!.pauliX[i]) qubit.pauliX();
-        if (this.selectedGates!.pauliY[i]) qubit.pauliY();
-        if (this.selectedGates!.pauliZ[i]) qubit.pauliZ();
-        if (this.selectedGates!.rotationX[i]) qubit.rotationX();
-        if (this.selectedGates!.rotationY[i]) qubit.rotationY();
-        if (this.selectedGates!.rotationZ[i]) qubit.rotationZ();
-        if (this.selectedGates!.tGate[i]) qubit.tGate();
+    get registerIndices() {
+      return this.qubits.map(q => q.registerIndex);
+    }
+
+    createRegister(): QuantumRegister {
+      return this.noiseModel ? new DensityMatrix(this.numQubits) : new StateVector(this.numQubits);
+    }
+
+    applyGateNoise(label: string, qubitIdxs: number[], register: QuantumRegister = this.register) {
+      const channels = this.noiseModel?.gate[label];
+      if (!channels || !(register instanceof DensityMatrix)) return;
+      qubitIdxs.forEach(idx => {
+        channels.forEach(channel => {
+          const kraus = krausOperators(channel);
+          if (kraus.length > 0) register.applyChannel(this.qubits[idx].registerIndex, kraus);
+        });
       });
+    }
 
-      this.createIntraCircuitEntanglement();
-      
-      if (this.selectedGates.swap) {
-          this.selectedGates.swap.forEach((isSwap, i) => {
-              if (isSwap) {
-                  this.swap(i, i + 1);
-              }
-          });
-      }
+    applyReadoutNoise(qubitIdx: number, bit: number, random: Rng = this.rng) {
+      const channels = this.noiseModel?.qubit[this.qubits[qubitIdx].id];
+      return channels ? applyReadoutError(bit, channels, random) : bit;
+    }
 
-      if (this.selectedGates.ccnot) {
-          this.selectedGates.ccnot.forEach((isCCNOT, i) => {
-              if (isCCNOT) {
-                  // combinations: 0,1->2; 1,2->3; 2,3->4
-                  this.ccnot(i, i + 1, i + 2);
-              }
-          });
-      }
+    setupCircuit() {
+      if (!this.timeline) return;
+      sortTimeline(this.timeline).forEach(op => this.applyOperation(op));
     }
 
-    ccnot(c1: number, c2: number, t: number) {
-      if (c1 < this.numQubits && c2 < this.numQubits && t < this.numQubits) {
-        // Entangle all three qubits to represent the multi-qubit gate connection
-        this.entangleQubits(c1, t);
-        this.entangleQubits(c2, t);
-        this.entangleQubits(c1, c2);
-
-        // Simplified one-time conditional flip based on the state of the controls
-        // at the moment the circuit is defined.
-        if (this.qubits[c1].getProbability1() > 0.5 && this.qubits[c2].getProbability1() > 0.5) {
-            this.qubits[t].pauliX();
+    applyOperation(op: GateOperation) {
+      const [target] = op.targets;
+      const qubit = this.qubits[target];
+      if (!qubit) return;
+      if (op.condition && (this.classicalBits[op.condition.bit] ?? 0) !== op.condition.value) return;
+      switch (op.gate) {
+        case 'M': this.classicalBits[measurementBit(op)] = qubit.measure(); break;
+        case 'H': qubit.hadamard(); break;
+        case 'X': qubit.pauliX(); break;
+        case 'Y': qubit.pauliY(); break;
+        case 'Z': qubit.pauliZ(); break;
+        case 'Rx': qubit.rotationX(this.resolveAngle(op)); break;
+        case 'Ry': qubit.rotationY(this.resolveAngle(op)); break;
+        case 'Rz': qubit.rotationZ(this.resolveAngle(op)); break;
+        case 'T': qubit.tGate(); break;
+        case 'CNOT': this.entangleQubits(op.controls[0], target); break;
+        case 'CZ': this.controlledGate('CZ', op.controls, target, GATES.Z); break;
+        case 'CP': this.controlledGate('CP', op.controls, target, phaseGate(this.resolveAngle(op))); break;
+        case 'CU': {
+          const matrix = singleQubitGate(op.unitary ?? 'X', this.resolveAngle(op));
+          if (matrix) this.controlledGate('CU', op.controls, target, matrix);
+          break;
         }
+        case 'SWAP': this.swap(op.targets[0], op.targets[1]); break;
+        case 'iSWAP': this.iswap(op.targets[0], op.targets[1]); break;
+        case 'CCNOT': this.ccnot(op.controls[0], op.controls[1], target); break;
       }
     }
 
+    // Angles are validated where they enter (gate editor, seeds, QASM) and every parameter they
+    // use is bound, so evaluation cannot fail here
+    resolveAngle(op: GateOperation) {
+      return evaluateExpression(op.angle ?? DEFAULT_ROTATION_ANGLE, this.parameters);
+    }
+
+    // Applies `matrix` to `target` on the subspace where every control reads |1⟩
+    controlledGate(label: string, controls: number[], target: number, matrix: GateMatrix) {
+      const qubitIdxs = [...controls, target];
+      if (qubitIdxs.some(q => q >= this.numQubits) || new Set(qubitIdxs).size !== qubitIdxs.length) return false;
+      this.register.applyControlledGate(controls.map(c => this.offset + c), this.offset + target, matrix);
+      this.applyGateNoise(label, qubitIdxs);
+      controls.forEach(c => this.linkQubits(c, target));
+      return true;
+    }
+
+    ccnot(c1: number, c2: number, t: number) {
+      if (this.controlledGate('CCNOT', [c1, c2], t, GATES.X)) this.linkQubits(c1, c2);
+    }
+
+    // iSWAP = SWAP · CZ · (S ⊗ S)
+    iswap(i: number, j: number) {
+      if (i >= this.numQubits || j >= this.numQubits || i === j) return;
+      const a = this.offset + i, b = this.offset + j;
+      this.register.applySingleQubitGate(a, GATES.S);
+      this.register.applySingleQubitGate(b, GATES.S);
+      this.register.applyControlledGate([a], b, GATES.Z);
+      this.register.swap(a, b);
+      this.applyGateNoise('iSWAP', [i, j]);
+      this.linkQubits(i, j);
+    }
+
     swap(i: number, j: number) {
-        if (i < this.numQubits && j < this.numQubits) {
-            const tempState = this.qubits[i].state;
-            this.qubits[i].state = this.qubits[j].state;
-            this.qubits[j].state = tempState;
-
-            const tempPhase = this.qubits[i].phase;
-            this.qubits[i].phase = this.qubits[j].phase;
-            this.qubits[j].phase = tempPhase;
+        if (i < this.numQubits && j < this.numQubits && i !== j) {
+            this.register.swap(this.offset + i, this.offset + j);
+            this.applyGateNoise('SWAP', [i, j]);
         }
     }
 
-    createIntraCircuitEntanglement() {
-      const entanglementPairs = [[0, 1], [2, 3], [1, 4]];
-      entanglementPairs.forEach(([i, j]) => {
-        if (i < this.numQubits && j < this.numQubits) this.entangleQubits(i, j);
-      });
+    // CNOT from qubit i onto qubit j
+    entangleQubits(i: number, j: number) {
+      this.controlledGate('CNOT', [i], j, GATES.X);
     }
 
-    entangleQubits(i: number, j: number) {
-      if (i < this.numQubits && j < this.numQubits) {
-        this.qubits[i].entangled = true;
-        this.qubits[j].entangled = true;
-        this.qubits[i].entangledWith.push(j);
-        this.qubits[j].entangledWith.push(i);
-      }
+    linkQubits(i: number, j: number) {
+      this.qubits[i].entangled = true;
+      this.qubits[j].entangled = true;
+      this.qubits[i].entangledWith.push(j);
+      this.qubits[j].entangledWith.push(i);
     }
 
-    createInterCircuitEntanglement(otherCircuit: QuantumCircuit, connections: number[][]) {
-      this.interCircuitConnections = connections;
-      connections.forEach(([thisQubit, otherQubit]) => {
+    // Moves both circuits (and any already sharing their registers) onto one joint register, then
+    // applies each link's entangling operation between a qubit of this circuit and one of `otherCircuit`
+    createInterCircuitEntanglement(otherCircuit: QuantumCircuit, links: InterCircuitLink[], system: QuantumCircuit[] = []) {
+      const thisRegister = this.register;
+      const otherRegister = otherCircuit.register;
+      if (otherRegister !== thisRegister) {
+        const joint = thisRegister instanceof DensityMatrix
+          ? DensityMatrix.tensor(thisRegister, toDensityMatrix(otherRegister))
+          : otherRegister instanceof DensityMatrix
+            ? DensityMatrix.tensor(toDensityMatrix(thisRegister), otherRegister)
+            : StateVector.tensor(thisRegister as StateVector, otherRegister as StateVector);
+        new Set([this, otherCircuit, ...system]).forEach(circuit => {
+          if (circuit.register === otherRegister) {
+            circuit.offset += thisRegister.numQubits;
+            circuit.register = joint;
+          } else if (circuit.register === thisRegister) {
+            circuit.register = joint;
+          }
+        });
+      }
+      links.forEach(link => {
+        const { fromQubit: thisQubit, toQubit: otherQubit } = link;
         if (thisQubit < this.numQubits && otherQubit < otherCircuit.numQubits) {
-          const thisState = this.qubits[thisQubit].state;
-          const otherState = otherCircuit.qubits[otherQubit].state;
-          const avgState = [(thisState[0] + otherState[0]) / Math.sqrt(2), (thisState[1] + otherState[1]) / Math.sqrt(2)];
-          this.qubits[thisQubit].state = avgState;
-          otherCircuit.qubits[otherQubit].state = avgState;
+          this.interCircuitLinks.push(link);
+          const control = this.qubits[thisQubit].registerIndex;
+          const target = otherCircuit.qubits[otherQubit].registerIndex;
+          if (link.operation === 'bell') {
+            this.register.applySingleQubitGate(control, GATES.H);
+            this.applyGateNoise('H', [thisQubit]);
+          }
+          const gate = link.operation === 'cz' ? 'CZ' : 'CNOT';
+          this.register.applyControlledGate([control], target, link.operation === 'cz' ? GATES.Z : GATES.X);
+          this.applyGateNoise(gate, [thisQubit]);
+          otherCircuit.applyGateNoise(gate, [otherQubit]);
           this.qubits[thisQubit].entangled = true;
           otherCircuit.qubits[otherQubit].entangled = true;
           this.qubits[thisQubit].entangledWith.push(`${otherCircuit.circuitId}${otherQubit}`);
@@ -353,41 +592,65 @@ const QuantumWormholeSimulator = () => {
     }
 
     evolve(dt: number) {
+      // Free precession about Z, with a small phase-dependent wobble
       this.qubits.forEach((qubit, i) => {
         const omega = 0.1 + i * 0.03;
-        qubit.phase += omega * dt;
-        const angle = 0.008 * Math.sin(qubit.phase);
-        qubit.rotationZ(angle);
+        const angle = omega * dt + 0.008 * Math.sin(qubit.phase);
+        this.register.applySingleQubitGate(qubit.registerIndex, rotationZ(angle));
+      });
+
+      const register = this.register;
+      if (!this.noiseModel || !(register instanceof DensityMatrix)) return;
+      this.qubits.forEach(qubit => {
+        (this.noiseModel!.qubit[qubit.id] || []).forEach(channel => {
+          const kraus = krausOperators({ ...channel, probability: probabilityOverInterval(channel.probability, dt) });
+          if (kraus.length > 0) register.applyChannel(qubit.registerIndex, kraus);
+        });
       });
     }
 
     measureAll() {
-      const results = this.qubits.map(qubit => qubit.measure());
+      this.applyGateNoise('M', this.qubits.map((_, idx) => idx));
+      const results = this.register.measure(this.registerIndices, this.rng).map((bit, idx) => this.applyReadoutNoise(idx, bit));
       this.measurementHistory.push({ timestamp: Date.now(), results: [...results], probabilities: this.qubits.map(q => q.getProbability1()) });
       if (this.measurementHistory.length > 100) this.measurementHistory.shift();
       return results;
     }
 
+    // Bitstring (qubit 0 first) this circuit reads from a sampled basis state of its register
+    readout(basisIndex: number, random: Rng = this.rng) {
+      return this.registerIndices.map((q, idx) => this.applyReadoutNoise(idx, (basisIndex >> q) & 1, random)).join('');
+    }
+
     getCurrentProbabilities() {
-      return this.qubits.map((qubit, idx) => ({
-        prob0: qubit.getProbability0(),
-        prob1: qubit.getProbability1(),
-        phase: qubit.phase,
-        entangled: qubit.entangled,
-        entangledWith: qubit.entangledWith,
-        appliedGates: qubit.appliedGates,
-        id: `${this.circuitId}${idx}`
-      }));
+      return this.qubits.map((qubit, idx) => {
+        const prob1 = qubit.getProbability1();
+        return {
+          prob0: 1 - prob1,
+          prob1,
+          phase: qubit.phase,
+          purity: qubit.getPurity(),
+          bloch: qubit.getBlochVector(),
+          entangled: qubit.entangled,
+          entangledWith: qubit.entangledWith,
+          appliedGates: qubit.appliedGates,
+          id: `${this.circuitId}${idx}`
+        };
+      });
     }
 
+    // Probability of reading |11...1⟩ on this circuit's qubits
     getSystemProbability() {
-      return this.qubits.reduce((prob, qubit) => prob * qubit.getProbability1(), 1);
+      return this.register.probabilityAllOnes(this.registerIndices);
     }
 
     resetCircuit() {
+      this.register = this.createRegister();
+      this.offset = 0;
       this.qubits.forEach(qubit => qubit.reset());
       this.measurementHistory = [];
-      this.interCircuitConnections = [];
+      this.interCircuitLinks = [];
+      this.classicalBits = [];
       this.setupCircuit();
     }
   }
@@ -401,9 +664,7 @@ const QuantumWormholeSimulator = () => {
     Ly: number;
     numLayers: number;
     viscosityParam: number;
-    quantumCircuitA: QuantumCircuit;
-    quantumCircuitB: QuantumCircuit | null;
-    dualCircuitMode: boolean;
+    circuits: QuantumCircuit[];
     x: number[];
     y: number[];
     hbar: number;
@@ -411,8 +672,10 @@ const QuantumWormholeSimulator = () => {
     masaInformativaLayers: MasaInformativaLayer[];
     streamlines: QuantumStreamline[];
     informationalReynolds: number;
+    rng: Rng;
+    entanglement: EntanglementReport;
 
-    constructor(gridSize: number, domainSize: [number, number], quantumCircuitA: QuantumCircuit, quantumCircuitB: QuantumCircuit | null = null) {
+    constructor(gridSize: number, domainSize: [number, number], circuits: QuantumCircuit[], rng: Rng = Math.random) {
       this.gridSize = [gridSize, gridSize];
       this.domainSize = domainSize;
       this.nx = gridSize;
@@ -421,19 +684,57 @@ const QuantumWormholeSimulator = () => {
       this.Ly = domainSize[1];
       this.numLayers = NUM_LAYERS;
       this.viscosityParam = VISCOSITY;
-      this.quantumCircuitA = quantumCircuitA;
-      this.quantumCircuitB = quantumCircuitB;
-      this.dualCircuitMode = quantumCircuitB !== null;
+      this.circuits = circuits;
+      this.rng = rng;
       this.x = Array.from({length: this.nx}, (_, i) => i * this.Lx / (this.nx - 1));
       this.y = Array.from({length: this.ny}, (_, i) => i * this.Ly / (this.ny - 1));
       this.hbar = 1.055e-34;
       this.time = 0;
+      this.entanglement = this.measureEntanglement();
       this.masaInformativaLayers = this.initializeInfoLayersWithQuantum();
       this.streamlines = this.defineQuantumStreamlines();
       this.informationalReynolds = this.computeInformationalReynolds();
     }
 
+    // Entropies, concurrence, mutual information and negativity of the circuits' current state
+    measureEntanglement() {
+      this.entanglement = entanglementReport(this.circuits.map(circuit => ({ id: circuit.circuitId, register: circuit.register, indices: circuit.registerIndices })));
+      return this.entanglement;
+    }
+
+    // Entanglement entropy (bits) of a qubit with the rest of its register
+    qubitEntropy(circuitIdx: number, qubitIdx: number) {
+      const offset = this.circuits.slice(0, circuitIdx).reduce((sum, circuit) => sum + circuit.numQubits, 0);
+      return this.entanglement.qubits[offset + qubitIdx]?.entropy ?? 0;
+    }
+
+    get multiCircuitMode() {
+      return this.circuits.length > 1;
+    }
+
+    // Circuits after the first contribute with a reduced weight
+    circuitWeight(circuitIdx: number, secondaryWeight: number) {
+      return circuitIdx === 0 ? 1 : secondaryWeight;
+    }
+
+    // Gaussian of informational mass around every qubit, each circuit along its own row
+    quantumMasaAt(probs: ReturnType<QuantumCircuit['getCurrentProbabilities']>[], x: number, y: number, layerIdx: number) {
+      let masa = 0;
+      this.circuits.forEach((circuit, k) => {
+        const centerY = this.Ly * circuitLayoutY(k, this.circuits.length);
+        const sigma = 0.8 + layerIdx * 0.2;
+        for (let qubitIdx = 0; qubitIdx < circuit.numQubits; qubitIdx++) {
+          const centerX = this.Lx * qubitLayoutX(qubitIdx, circuit.numQubits);
+          const qubitProb = probs[k][qubitIdx] ? probs[k][qubitIdx].prob1 : 0.5;
+          const gaussian = Math.exp(-((x - centerX)**2 + (y - centerY)**2) / (2 * sigma**2));
+          masa += gaussian * qubitProb * (1 + 0.3 * Math.sin(probs[k][qubitIdx]?.phase || 0)) * this.circuitWeight(k, 0.8);
+        }
+      });
+      return masa;
+    }
+
     initializeInfoLayersWithQuantum() {
+      const probs = this.circuits.map(circuit => circuit.getCurrentProbabilities());
       const layers = [];
       for (let layerIdx = 0; layerIdx < this.numLayers; layerIdx++) {
         const depth = layerIdx * 2.0;
@@ -445,54 +746,28 @@ const QuantumWormholeSimulator = () => {
           for (let j = 0; j < this.nx; j++) {
             const x = this.x[j];
             const y = this.y[i];
-            let masa = 0;
-            if (this.quantumCircuitA) {
-              const probsA = this.quantumCircuitA.getCurrentProbabilities();
-              for (let qubitIdx = 0; qubitIdx < 5; qubitIdx++) {
-                const centerX = this.Lx * (0.15 + 0.12 * qubitIdx);
-                const centerY = this.dualCircuitMode ? this.Ly * 0.25 : this.Ly * 0.5;
-                const sigma = 0.8 + layerIdx * 0.2;
-                const qubitProb = probsA[qubitIdx] ? probsA[qubitIdx].prob1 : 0.5;
-                const gaussian = Math.exp(-((x - centerX)**2 + (y - centerY)**2) / (2 * sigma**2));
-                masa += gaussian * qubitProb * (1 + 0.3 * Math.sin(probsA[qubitIdx]?.phase || 0));
-              }
-            }
-            if (this.quantumCircuitB && this.dualCircuitMode) {
-              const probsB = this.quantumCircuitB.getCurrentProbabilities();
-              for (let qubitIdx = 0; qubitIdx < 5; qubitIdx++) {
-                const centerX = this.Lx * (0.15 + 0.12 * qubitIdx);
-                const centerY = this.Ly * 0.75;
-                const sigma = 0.8 + layerIdx * 0.2;
-                const qubitProb = probsB[qubitIdx] ? probsB[qubitIdx].prob1 : 0.5;
-                const gaussian = Math.exp(-((x - centerX)**2 + (y - centerY)**2) / (2 * sigma**2));
-                masa += gaussian * qubitProb * (1 + 0.3 * Math.sin(probsB[qubitIdx]?.phase || 0)) * 0.8;
-              }
-            }
-            masa += 0.03 * (Math.random() - 0.5);
+            let masa = this.quantumMasaAt(probs, x, y, layerIdx);
+            masa += 0.03 * (this.rng() - 0.5);
             masaInformativa[i][j] = Math.max(0.01, masa);
             let vx = 0, vy = 0;
-            if (this.quantumCircuitA) {
-              const probsA = this.quantumCircuitA.getCurrentProbabilities();
-              probsA.forEach((probData) => {
-                if (probData.entangled) {
-                  const entanglementStrength = probData.entangledWith.length;
-                  const phase = probData.phase;
-                  vx += entanglementStrength * Math.sin(phase + x * 0.3) * probData.prob1;
-                  vy += entanglementStrength * Math.cos(phase + y * 0.3) * probData.prob0;
-                }
-              });
-            }
-            if (this.quantumCircuitB && this.dualCircuitMode) {
-              const probsB = this.quantumCircuitB.getCurrentProbabilities();
-              probsB.forEach((probData) => {
-                if (probData.entangled) {
-                  const entanglementStrength = probData.entangledWith.length;
+            // Even-indexed circuits swirl one way and odd-indexed ones the other
+            probs.forEach((circuitProbs, k) => {
+              const weight = this.circuitWeight(k, 0.7);
+              circuitProbs.forEach((probData, qubitIdx) => {
+                // A qubit stirs the flow in proportion to how entangled it is (entropy, up to 1 bit)
+                const entanglementStrength = 2 * this.qubitEntropy(k, qubitIdx);
+                if (entanglementStrength > 1e-3) {
                   const phase = probData.phase;
-                  vx += entanglementStrength * Math.cos(phase + x * 0.4) * probData.prob1 * 0.7;
-                  vy += entanglementStrength * Math.sin(phase + y * 0.4) * probData.prob0 * -0.7;
+                  if (k % 2 === 0) {
+                    vx += entanglementStrength * Math.sin(phase + x * 0.3) * probData.prob1 * weight;
+                    vy += entanglementStrength * Math.cos(phase + y * 0.3) * probData.prob0 * weight;
+                  } else {
+                    vx += entanglementStrength * Math.cos(phase + x * 0.4) * probData.prob1 * weight;
+                    vy += entanglementStrength * Math.sin(phase + y * 0.4) * probData.prob0 * -weight;
+                  }
                 }
               });
-            }
+            });
             const dx = x - this.Lx/2;
             const dy = y - this.Ly/2;
             const r = Math.sqrt(dx*dx + dy*dy) + 0.1;
@@ -507,58 +782,31 @@ const QuantumWormholeSimulator = () => {
       return layers;
     }
 
+    // Pairwise concurrence over every circuit's qubits, circuit by circuit, fading with depth
     generateQuantumEntanglementMatrix(depth: number) {
-      const size = this.dualCircuitMode ? 10 : 5;
-      const matrix: number[][] = [];
-      for (let i = 0; i < size; i++) {
-        matrix[i] = [];
-        for (let j = 0; j < size; j++) {
-          let entanglement = 0;
-          if (i < 5 && j < 5 && this.quantumCircuitA) {
-            const probsA = this.quantumCircuitA.getCurrentProbabilities();
-            if (probsA[i] && probsA[j] && probsA[i].entangledWith.includes(j)) {
-              entanglement = Math.sqrt(probsA[i].prob1 * probsA[j].prob1) * 2;
-            }
-          }
-          if (i >= 5 && j >= 5 && this.quantumCircuitB && this.dualCircuitMode) {
-            const probsB = this.quantumCircuitB.getCurrentProbabilities();
-            const idxI = i - 5, idxJ = j - 5;
-            if (probsB[idxI] && probsB[idxJ] && probsB[idxI].entangledWith.includes(idxJ)) {
-              entanglement = Math.sqrt(probsB[idxI].prob1 * probsB[idxJ].prob1) * 2;
-            }
-          }
-          if (((i < 5 && j >= 5) || (i >= 5 && j < 5)) && this.quantumCircuitA && this.quantumCircuitB) {
-            const connections = this.quantumCircuitA.interCircuitConnections;
-            if (connections.some(([a, b]) => (i === a && j - 5 === b) || (i - 5 === b && j === a))) {
-              entanglement = 1.5;
-            }
-          }
-          matrix[i][j] = entanglement * Math.exp(-depth / 12.0);
-        }
-      }
-      return matrix;
+      return this.entanglement.concurrence.map(row => row.map(entanglement => entanglement * Math.exp(-depth / 12.0)));
+    }
+
+    // Streamlines seeded per circuit; at least one per qubit
+    get streamlinesPerCircuit() {
+      return Math.max(this.multiCircuitMode ? 10 : 15, ...this.circuits.map(circuit => circuit.numQubits));
+    }
+
+    // The circuit and qubit a streamline is seeded from
+    streamlineSource(streamlineId: number) {
+      const perCircuit = this.streamlinesPerCircuit;
+      const circuitIdx = Math.min(Math.floor(streamlineId / perCircuit), this.circuits.length - 1);
+      const circuit = this.circuits[circuitIdx];
+      return { circuit, circuitIdx, qubitIdx: (streamlineId % perCircuit) % circuit.numQubits };
     }
 
     defineQuantumStreamlines() {
       const streamlines: QuantumStreamline[] = [];
-      const numStreamlines = this.dualCircuitMode ? 20 : 15;
+      const numStreamlines = this.streamlinesPerCircuit * this.circuits.length;
       for (let i = 0; i < numStreamlines; i++) {
-        let startX, startY;
-        if (this.dualCircuitMode) {
-          if (i < numStreamlines / 2) {
-            const qubitIdx = i % 5;
-            startX = this.Lx * (0.15 + 0.12 * qubitIdx) + (Math.random() - 0.5) * 1.5;
-            startY = this.Ly * 0.25 + (Math.random() - 0.5) * 2;
-          } else {
-            const qubitIdx = (i - numStreamlines / 2) % 5;
-            startX = this.Lx * (0.15 + 0.12 * qubitIdx) + (Math.random() - 0.5) * 1.5;
-            startY = this.Ly * 0.75 + (Math.random() - 0.5) * 2;
-          }
-        } else {
-          const qubitIdx = i % 5;
-          startX = this.Lx * (0.15 + 0.12 * qubitIdx) + (Math.random() - 0.5) * 1.5;
-          startY = this.Ly * 0.5 + (Math.random() - 0.5) * 3;
-        }
+        const { circuit, circuitIdx, qubitIdx } = this.streamlineSource(i);
+        const startX = this.Lx * qubitLayoutX(qubitIdx, circuit.numQubits) + (this.rng() - 0.5) * 1.5;
+        const startY = this.Ly * circuitLayoutY(circuitIdx, this.circuits.length) + (this.rng() - 0.5) * (this.multiCircuitMode ? 2 : 3);
         const coords = this.integrateStreamline([startX, startY]);
         if (coords.length > 1) {
           const probDensity = this.computeQuantumProbabilityDensity(coords, i);
@@ -572,18 +820,14 @@ const QuantumWormholeSimulator = () => {
 
     computeQuantumProbabilityDensity(coords: [number, number][], streamlineId: number) {
       if (coords.length === 0) return [];
+      const { circuit, qubitIdx } = this.streamlineSource(streamlineId);
+      const probs = circuit.getCurrentProbabilities();
       const probDensity = coords.map((coord, idx) => {
         let quantumProb = 0.5;
-        const isCircuitB = this.dualCircuitMode && streamlineId >= (this.dualCircuitMode ? 10 : 15);
-        const circuit = isCircuitB ? this.quantumCircuitB : this.quantumCircuitA;
-        if (circuit) {
-          const probs = circuit.getCurrentProbabilities();
-          const qubitIdx = streamlineId % 5;
-          if (probs[qubitIdx]) {
-            quantumProb = probs[qubitIdx].prob1;
-            const t = idx / coords.length;
-            quantumProb *= (1 + 0.4 * Math.sin(4 * Math.PI * t + probs[qubitIdx].phase));
-          }
+        if (probs[qubitIdx]) {
+          quantumProb = probs[qubitIdx].prob1;
+          const t = idx / coords.length;
+          quantumProb *= (1 + 0.4 * Math.sin(4 * Math.PI * t + probs[qubitIdx].phase));
         }
         return Math.max(0.1, quantumProb);
       });
@@ -599,14 +843,10 @@ const QuantumWormholeSimulator = () => {
         const dy = coords[i][1] - coords[i-1][1];
         distances.push(distances[distances.length - 1] + Math.sqrt(dx*dx + dy*dy));
       }
-      let quantumPhase = 2 * Math.PI * streamlineId / (this.dualCircuitMode ? 20 : 15);
-      const isCircuitB = this.dualCircuitMode && streamlineId >= 10;
-      const circuit = isCircuitB ? this.quantumCircuitB : this.quantumCircuitA;
-      if (circuit) {
-        const probs = circuit.getCurrentProbabilities();
-        const qubitIdx = streamlineId % 5;
-        if (probs[qubitIdx]) quantumPhase += probs[qubitIdx].phase;
-      }
+      let quantumPhase = 2 * Math.PI * streamlineId / (this.streamlinesPerCircuit * this.circuits.length);
+      const { circuit, qubitIdx } = this.streamlineSource(streamlineId);
+      const probs = circuit.getCurrentProbabilities();
+      if (probs[qubitIdx]) quantumPhase += probs[qubitIdx].phase;
       return distances.map(d => d * 2.5 + quantumPhase);
     }
 
@@ -617,8 +857,9 @@ const QuantumWormholeSimulator = () => {
         totalLength += Math.sqrt((coords[i][0] - coords[i-1][0])**2 + (coords[i][1] - coords[i-1][1])**2);
       }
       let quantumCoherence = 1.0;
-      if (this.quantumCircuitA) quantumCoherence += this.quantumCircuitA.getSystemProbability() * 1.5;
-      if (this.quantumCircuitB && this.dualCircuitMode) quantumCoherence += this.quantumCircuitB.getSystemProbability() * 1.2;
+      this.circuits.forEach((circuit, k) => {
+        quantumCoherence += circuit.getSystemProbability() * (k === 0 ? 1.5 : 1.2);
+      });
       return totalLength * Math.exp(-totalLength / 9.0) * quantumCoherence + 0.5;
     }
 
@@ -626,14 +867,10 @@ const QuantumWormholeSimulator = () => {
       const characteristicVelocity = 1.0;
       const characteristicLength = Math.min(this.Lx, this.Ly);
       let quantumFactor = 1.0;
-      if (this.quantumCircuitA) {
-        const avgProbA = this.quantumCircuitA.getCurrentProbabilities().reduce((sum, p) => sum + p.prob1, 0) / 5;
-        quantumFactor += avgProbA;
-      }
-      if (this.quantumCircuitB && this.dualCircuitMode) {
-        const avgProbB = this.quantumCircuitB.getCurrentProbabilities().reduce((sum, p) => sum + p.prob1, 0) / 5;
-        quantumFactor += avgProbB * 0.8;
-      }
+      this.circuits.forEach((circuit, k) => {
+        const avgProb = circuit.getCurrentProbabilities().reduce((sum, p) => sum + p.prob1, 0) / circuit.numQubits;
+        quantumFactor += avgProb * this.circuitWeight(k, 0.8);
+      });
       return (characteristicVelocity * characteristicLength * quantumFactor) / this.viscosityParam;
     }
 
@@ -666,11 +903,8 @@ const QuantumWormholeSimulator = () => {
 
     evolve(dt: number) {
       this.time += dt;
-      if (this.quantumCircuitA) {
-        this.quantumCircuitA.evolve(dt);
-        this.updateMasaInformativaFromQuantum();
-      }
-      if (this.quantumCircuitB && this.dualCircuitMode) this.quantumCircuitB.evolve(dt);
+      this.circuits.forEach(circuit => circuit.evolve(dt));
+      this.updateMasaInformativaFromQuantum();
       this.streamlines.forEach((streamline) => {
         const oscillation = 1 + 0.1 * Math.sin(this.time * 0.25);
         streamline.coherenceLength *= 0.9998 * oscillation;
@@ -678,8 +912,8 @@ const QuantumWormholeSimulator = () => {
           if (idx > 0 && idx < streamline.coordinates.length - 1) {
             const phaseEvolution = streamline.phase[idx] || 0;
             const perturbation = 0.002 * Math.sin(phaseEvolution + this.time);
-            coord[0] += perturbation * (Math.random() - 0.5);
-            coord[1] += perturbation * (Math.random() - 0.5);
+            coord[0] += perturbation * (this.rng() - 0.5);
+            coord[1] += perturbation * (this.rng() - 0.5);
             coord[0] = Math.max(0.1, Math.min(this.Lx - 0.1, coord[0]));
             coord[1] = Math.max(0.1, Math.min(this.Ly - 0.1, coord[1]));
           }
@@ -688,34 +922,11 @@ const QuantumWormholeSimulator = () => {
     }
 
     updateMasaInformativaFromQuantum() {
+      const probs = this.circuits.map(circuit => circuit.getCurrentProbabilities());
       const layer = this.masaInformativaLayers[ACTIVE_LAYER];
       for (let i = 0; i < this.ny; i++) {
         for (let j = 0; j < this.nx; j++) {
-          const x = this.x[j];
-          const y = this.y[i];
-          let newMasa = 0;
-          if (this.quantumCircuitA) {
-            const probsA = this.quantumCircuitA.getCurrentProbabilities();
-            for (let qubitIdx = 0; qubitIdx < 5; qubitIdx++) {
-              const centerX = this.Lx * (0.15 + 0.12 * qubitIdx);
-              const centerY = this.dualCircuitMode ? this.Ly * 0.25 : this.Ly * 0.5;
-              const sigma = 0.8 + ACTIVE_LAYER * 0.2;
-              const qubitProb = probsA[qubitIdx] ? probsA[qubitIdx].prob1 : 0.5;
-              const gaussian = Math.exp(-((x - centerX)**2 + (y - centerY)**2) / (2 * sigma**2));
-              newMasa += gaussian * qubitProb * (1 + 0.3 * Math.sin(probsA[qubitIdx]?.phase || 0));
-            }
-          }
-          if (this.quantumCircuitB && this.dualCircuitMode) {
-            const probsB = this.quantumCircuitB.getCurrentProbabilities();
-            for (let qubitIdx = 0; qubitIdx < 5; qubitIdx++) {
-              const centerX = this.Lx * (0.15 + 0.12 * qubitIdx);
-              const centerY = this.Ly * 0.75;
-              const sigma = 0.8 + ACTIVE_LAYER * 0.2;
-              const qubitProb = probsB[qubitIdx] ? probsB[qubitIdx].prob1 : 0.5;
-              const gaussian = Math.exp(-((x - centerX)**2 + (y - centerY)**2) / (2 * sigma**2));
-              newMasa += gaussian * qubitProb * (1 + 0.3 * Math.sin(probsB[qubitIdx]?.phase || 0)) * 0.8;
-            }
-          }
+          const newMasa = this.quantumMasaAt(probs, this.x[j], this.y[i], ACTIVE_LAYER);
           layer.density[i][j] = 0.92 * layer.density[i][j] + 0.08 * Math.max(0.01, newMasa);
         }
       }
@@ -748,40 +959,229 @@ const QuantumWormholeSimulator = () => {
     }
   }
 
-  useEffect(() => {
-    const circuitA = new QuantumCircuit(5, 'A', selectedGatesA);
-    setQuantumCircuitA(circuitA);
-    let circuitB = null;
-    if (circuitBEnabled) {
-      circuitB = new QuantumCircuit(5, 'B', selectedGatesB);
-      setQuantumCircuitB(circuitB);
-      if (interCircuitEntanglementEnabled) {
-        const connections = [[2, 2]]; // Entangle Q2 of A with Q2 of B
-        circuitA.createInterCircuitEntanglement(circuitB, connections);
-        setInterCircuitEntanglement(connections);
+  const usedParameterNames = () =>
+    [...new Set<string>(circuitConfigs.flatMap(config => timelineParameters(config.timeline)))];
+
+  // Rejects configurations whose register would not fit in memory; returns the reason, if any
+  const registerLimitError = (config: { circuits: CircuitConfig[]; links: InterCircuitLink[]; interCircuit: boolean; densityMatrix: boolean }) => {
+    const limit = config.densityMatrix ? QUBIT_LIMITS.density_matrix : QUBIT_LIMITS.statevector;
+    const widest = Math.max(...registerWidths(config.circuits, config.interCircuit ? config.links : []));
+    if (widest <= limit) return null;
+    return `Un registro de ${widest} qubits supera el máximo de ${limit} en modo ${config.densityMatrix ? 'matriz de densidad' : 'vector de estado'}.`;
+  };
+
+  // Applies a change to the register-shaping settings unless it breaks the width limits
+  const updateRegisterConfig = (changes: { circuits?: CircuitConfig[]; links?: InterCircuitLink[]; interCircuit?: boolean; densityMatrix?: boolean }) => {
+    const next = { circuits: circuitConfigs, links: interCircuitEntanglement, interCircuit: interCircuitEntanglementEnabled, densityMatrix: densityMatrixMode, ...changes };
+    // Resizing or removing circuits drops the links that pointed at them
+    next.links = trimLinks(next.links, next.circuits);
+    const error = registerLimitError(next);
+    if (error) {
+      // A rejected edit must not name the next one
+      historyLabelRef.current = null;
+      alert(error);
+      return;
+    }
+    setCircuitConfigs(next.circuits);
+    setInterCircuitEntanglement(next.links);
+    setInterCircuitEntanglementEnabled(next.interCircuit);
+    setDensityMatrixMode(next.densityMatrix);
+  };
+
+  const setCircuitWidth = (circuitId: string, numQubits: number) => {
+    updateRegisterConfig({
+      circuits: circuitConfigs.map(config => config.id === circuitId
+        ? { ...config, numQubits, timeline: trimTimeline(config.timeline, numQubits) }
+        : config)
+    });
+  };
+
+  const addCircuit = () => {
+    const id = [...CIRCUIT_IDS].find(letter => !circuitConfigs.some(config => config.id === letter));
+    if (!id || circuitConfigs.length >= MAX_CIRCUITS) return;
+    updateRegisterConfig({ circuits: [...circuitConfigs, createCircuitConfig(id, circuitConfigs.length)] });
+  };
+
+  const removeCircuit = (circuitId: string) => {
+    updateRegisterConfig({ circuits: circuitConfigs.filter(config => config.id !== circuitId) });
+  };
+
+  // Switching links on with an empty map starts from the default chain
+  const setInterCircuitEnabled = (enabled: boolean) => {
+    updateRegisterConfig({
+      interCircuit: enabled,
+      links: enabled && interCircuitEntanglement.length === 0 ? defaultInterCircuitLinks(circuitConfigs) : interCircuitEntanglement
+    });
+  };
+
+  const addInterCircuitLink = () => {
+    const link = linkDraft;
+    const from = circuitConfigs.find(config => config.id === link.from);
+    const to = circuitConfigs.find(config => config.id === link.to);
+    if (!from || !to || link.from === link.to) {
+      alert('Un enlace debe unir dos circuitos distintos.');
+      return;
+    }
+    if (link.fromQubit >= from.numQubits || link.toQubit >= to.numQubits) {
+      alert(`El enlace ${describeLink(link)} apunta a un qubit inexistente.`);
+      return;
+    }
+    if (interCircuitEntanglement.some(other => sameLink(other, link))) {
+      alert(`El enlace ${describeLink(link)} ya existe.`);
+      return;
+    }
+    updateRegisterConfig({ links: [...interCircuitEntanglement, { ...link }] });
+  };
+
+  const removeInterCircuitLink = (link: InterCircuitLink) => {
+    updateRegisterConfig({ links: interCircuitEntanglement.filter(other => other !== link) });
+  };
+
+  const setInterCircuitLinkOperation = (link: InterCircuitLink, operation: InterCircuitLinkOperation) => {
+    updateRegisterConfig({ links: interCircuitEntanglement.map(other => other === link ? { ...other, operation } : other) });
+  };
+
+  const updateTimeline = (circuitId: string, update: (timeline: GateOperation[]) => GateOperation[]) => {
+    setCircuitConfigs(prev => prev.map(config => config.id === circuitId ? { ...config, timeline: update(config.timeline) } : config));
+  };
+
+  const resolveParameters = () =>
+    Object.fromEntries(usedParameterNames().map(name => [name, parameterBindings[name] ?? 0]));
+
+  // Fresh circuits for the current configuration, entangled along the inter-circuit links when enabled
+  // Without `rng`, the shared generator restarts from the seed, so the same seed replays the same run
+  const buildCircuits = (rng?: Rng) => {
+    const activeNoise = densityMatrixMode ? noiseModel : null;
+    const parameters = resolveParameters();
+    if (!rng) rngRef.current = createRng(rngSeed);
+    const circuits = circuitConfigs.map(config => new QuantumCircuit(config.numQubits, config.id, config.timeline, activeNoise, parameters, rng ?? rngRef.current));
+    const links = interCircuitEntanglementEnabled ? trimLinks(interCircuitEntanglement, circuitConfigs) : [];
+    links.forEach(link => {
+      const from = circuits.find(circuit => circuit.circuitId === link.from);
+      const to = circuits.find(circuit => circuit.circuitId === link.to);
+      if (from && to) from.createInterCircuitEntanglement(to, [link], circuits);
+    });
+    return circuits;
+  };
+
+  // Column j is the timeline applied, noise-free, to |j⟩
+  const circuitUnitary = (config: CircuitConfig): ComplexMatrix | string => {
+    if (config.timeline.some(op => op.gate === 'M')) return 'El circuito mide a mitad de ejecución, así que no implementa una unitaria.';
+    if (config.numQubits > INSPECTOR_LIMITS.unitary_qubits) return `La unitaria solo se construye para circuitos de hasta ${INSPECTOR_LIMITS.unitary_qubits} qubits.`;
+    const dimension = 1 << config.numQubits;
+    const parameters = resolveParameters();
+    const unitary: ComplexMatrix = {
+      re: Array.from({ length: dimension }, () => new Array(dimension).fill(0)),
+      im: Array.from({ length: dimension }, () => new Array(dimension).fill(0))
+    };
+    for (let j = 0; j < dimension; j++) {
+      const circuit = new QuantumCircuit(config.numQubits, config.id, null, null, parameters);
+      const state = circuit.register as StateVector;
+      state.re[0] = 0;
+      state.re[j] = 1;
+      circuit.timeline = config.timeline;
+      circuit.setupCircuit();
+      for (let i = 0; i < dimension; i++) {
+        unitary.re[i][j] = state.re[i];
+        unitary.im[i][j] = state.im[i];
       }
-    } else {
-        setInterCircuitEntanglement([]);
     }
-    const newFramework = new QuantumLaminarFlow(GRID_SIZE, [10.0, 10.0], circuitA, circuitB);
-    setFramework(newFramework);
-    setQubitStatesA(circuitA.getCurrentProbabilities() as any);
-    if (circuitB) setQubitStatesB(circuitB.getCurrentProbabilities() as any);
-  }, [selectedGatesA, selectedGatesB, circuitBEnabled, interCircuitEntanglementEnabled]);
+    return unitary;
+  };
+
+  // Falls back to the first circuit when the inspected one is removed
+  const inspectedConfig = circuitConfigs.find(config => config.id === inspectorTarget) ?? circuitConfigs[0];
+
+  useEffect(() => {
+    if (inspectedConfig) setInspectorUnitary(circuitUnitary(inspectedConfig));
+  }, [circuitConfigs, parameterBindings, inspectorTarget]);
+
+  useEffect(() => {
+    const circuits = buildCircuits();
+    setQuantumCircuits(circuits);
+    const flow = new QuantumLaminarFlow(GRID_SIZE, [10.0, 10.0], circuits, rngRef.current);
+    setFramework(flow);
+    setEntanglementData(flow.entanglement);
+    setQubitStates(circuits.map(circuit => circuit.getCurrentProbabilities()));
+    setShotResults(null);
+    shotRunRef.current++;
+    setShotProgress(null);
+  }, [circuitConfigs, interCircuitEntanglement, interCircuitEntanglementEnabled, densityMatrixMode, noiseModel, parameterBindings, rngSeed]);
+
+  // Records every configuration change; restoring an entry leaves nothing new to record
+  useEffect(() => {
+    const current = history.entries[history.index].snapshot;
+    if (sameSnapshot(current, configurationSnapshot)) return;
+    const label = historyLabelRef.current ?? describeChange(current, configurationSnapshot);
+    historyLabelRef.current = null;
+    setHistory(pushHistory(history, label, configurationSnapshot));
+  }, [circuitConfigs, interCircuitEntanglement, interCircuitEntanglementEnabled, densityMatrixMode, noiseModel, parameterBindings, rngSeed, teleportationConfig, wormholeConfig, wormholeMetric, tunnelingMethod, fragmentation]);
+
+  const restoreHistory = (index: number) => {
+    const entry = history.entries[index];
+    if (!entry || index === history.index) return;
+    const { snapshot } = entry;
+    setCircuitConfigs(snapshot.circuits);
+    setInterCircuitEntanglement(snapshot.links);
+    setInterCircuitEntanglementEnabled(snapshot.interCircuit);
+    setDensityMatrixMode(snapshot.densityMatrix);
+    setNoiseModel(snapshot.noiseModel);
+    setParameterBindings(snapshot.parameterBindings);
+    setRngSeed(snapshot.rngSeed);
+    if (snapshot.teleportationConfig !== teleportationConfig) {
+      setTeleportationConfig(snapshot.teleportationConfig);
+      setTeleportationData(null);
+    }
+    if (snapshot.wormholeConfig !== wormholeConfig || snapshot.metric !== wormholeMetric || snapshot.tunnelingMethod !== tunnelingMethod || snapshot.fragmentation !== fragmentation) {
+      setWormholeConfig(snapshot.wormholeConfig);
+      setWormholeMetric(snapshot.metric);
+      setTunnelingMethod(snapshot.tunnelingMethod);
+      setFragmentation(snapshot.fragmentation);
+      setReconstructionData(null);
+      setMetricComparison(null);
+    }
+    setHistory(prev => ({ ...prev, index }));
+  };
+
+  const undo = () => restoreHistory(history.index - 1);
+  const redo = () => restoreHistory(history.index + 1);
 
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), and Supr/Esc for the diagram selection; text fields keep
+  // their own keys
   useEffect(() => {
-    if (isRunning && framework && quantumCircuitA) {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if ((event.key === 'Delete' || event.key === 'Backspace') && diagramSelection) {
+        removeDiagramOperation(diagramSelection.circuit, diagramSelection.op);
+        event.preventDefault();
+        return;
+      }
+      if (event.key === 'Escape') {
+        setDiagramTool(null);
+        setDiagramSelection(null);
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) undo();
+      else if ((key === 'z' && event.shiftKey) || key === 'y') redo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    if (isRunning && framework && quantumCircuits.length > 0) {
       const animate = () => {
         framework.evolve(0.1);
         setCurrentTime(framework.time);
-        setQubitStatesA(quantumCircuitA.getCurrentProbabilities() as any);
-        if (quantumCircuitB) setQubitStatesB(quantumCircuitB.getCurrentProbabilities() as any);
+        setQubitStates(quantumCircuits.map(circuit => circuit.getCurrentProbabilities()));
         
         // Update metrics for chart
-        const allQubits = [...quantumCircuitA.qubits];
-        if (quantumCircuitB && circuitBEnabled) {
-            allQubits.push(...quantumCircuitB.qubits);
-        }
+        const allQubits = quantumCircuits.flatMap(circuit => circuit.qubits);
         
         let sumX = 0, sumY = 0;
         allQubits.forEach(q => {
@@ -803,12 +1203,9 @@ const QuantumWormholeSimulator = () => {
 
 
         if (framework.time % 3 < 0.1) {
-          const resultsA = quantumCircuitA.measureAll();
-          setMeasurementResultsA(resultsA);
-          if (quantumCircuitB) {
-            const resultsB = quantumCircuitB.measureAll();
-            setMeasurementResultsB(resultsB);
-          }
+          setMeasurementResults(quantumCircuits.map(circuit => circuit.measureAll()));
+          // Measurement collapses (and noise erodes) entanglement
+          setEntanglementData(framework.measureEntanglement());
         }
         renderVisualization();
         renderQuantumCircuit();
@@ -821,7 +1218,7 @@ const QuantumWormholeSimulator = () => {
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [isRunning, framework, quantumCircuitA, quantumCircuitB]);
+  }, [isRunning, framework, quantumCircuits]);
 
   const renderVisualization = () => {
     if (!framework || !canvasRef.current) return;
@@ -883,12 +1280,13 @@ const QuantumWormholeSimulator = () => {
       });
     }
 
-    const drawQubit = (probData: any, qubitIdx: number, circuit: 'A' | 'B') => {
-      const isB = circuit === 'B';
-      const centerX = (0.15 + 0.12 * qubitIdx) * width;
-      const centerY = (circuitBEnabled ? (isB ? 0.75 : 0.25) : 0.5) * height;
-      const radius = 10 + probData.prob1 * 12;
-      const baseHue = (qubitIdx + (isB ? 5 : 0)) * 72;
+    const drawQubit = (probData: any, qubitIdx: number, circuitIdx: number, numQubits: number) => {
+      const circuit = quantumCircuits[circuitIdx];
+      const centerX = qubitLayoutX(qubitIdx, numQubits) * width;
+      const centerY = circuitLayoutY(circuitIdx, quantumCircuits.length) * height;
+      // Shrink the markers once the qubits sit closer than the default spacing
+      const radius = (10 + probData.prob1 * 12) * qubitSpacing(numQubits) / 0.12;
+      const baseHue = (qubitIdx + quantumCircuits.slice(0, circuitIdx).reduce((sum, c) => sum + c.numQubits, 0)) * 72;
 
       ctx.save();
       ctx.shadowColor = `hsl(${baseHue}, 90%, 70%)`;
@@ -910,10 +1308,10 @@ const QuantumWormholeSimulator = () => {
 
       probData.entangledWith.forEach((otherQubit: string | number) => {
         if (typeof otherQubit === 'number' && otherQubit > qubitIdx) {
-          const otherX = (0.15 + 0.12 * otherQubit) * width;
+          const otherX = qubitLayoutX(otherQubit, numQubits) * width;
           const otherY = centerY;
           ctx.save();
-          const laserHue = (qubitIdx + otherQubit + (isB ? 10 : 0)) * 36;
+          const laserHue = (qubitIdx + otherQubit + circuitIdx * 10) * 36;
           ctx.shadowColor = `hsl(${laserHue}, 100%, 70%)`;
           ctx.shadowBlur = 10;
           
@@ -937,37 +1335,39 @@ const QuantumWormholeSimulator = () => {
       ctx.fillStyle = 'white';
       ctx.font = 'bold 10px monospace';
       ctx.textAlign = 'center';
-      ctx.fillText(`${circuit}${qubitIdx}`, centerX, centerY + 3);
+      ctx.fillText(`${circuit.circuitId}${qubitIdx}`, centerX, centerY + 3);
     };
 
-    if (quantumCircuitA && qubitStatesA.length > 0) {
-      qubitStatesA.forEach((probData, qubitIdx) => drawQubit(probData, qubitIdx, 'A'));
-    }
-
-    if (quantumCircuitB && circuitBEnabled && qubitStatesB.length > 0) {
-      qubitStatesB.forEach((probData, qubitIdx) => drawQubit(probData, qubitIdx, 'B'));
-    }
-
-    if (interCircuitEntanglementEnabled && quantumCircuitA && quantumCircuitB && framework) {
-      interCircuitEntanglement.forEach(([aQubit, bQubit]) => {
-        const aX = (0.15 + 0.12 * aQubit) * width;
-        const aY = 0.25 * height;
-        const bX = (0.15 + 0.12 * bQubit) * width;
-        const bY = 0.75 * height;
+    qubitStates.forEach((states, circuitIdx) => {
+      if (quantumCircuits[circuitIdx]) {
+        states.forEach((probData, qubitIdx) => drawQubit(probData, qubitIdx, circuitIdx, states.length));
+      }
+    });
+
+    if (interCircuitEntanglementEnabled && framework) {
+      interCircuitEntanglement.forEach(link => {
+        const from = quantumCircuits.findIndex(c => c.circuitId === link.from);
+        const to = quantumCircuits.findIndex(c => c.circuitId === link.to);
+        if (from < 0 || to < 0) return;
+        const aX = qubitLayoutX(link.fromQubit, quantumCircuits[from].numQubits) * width;
+        const aY = circuitLayoutY(from, quantumCircuits.length) * height;
+        const bX = qubitLayoutX(link.toQubit, quantumCircuits[to].numQubits) * width;
+        const bY = circuitLayoutY(to, quantumCircuits.length) * height;
         
         ctx.save();
         const pulse = 0.6 + 0.4 * Math.sin(framework.time * 2);
-        ctx.shadowColor = 'rgba(255, 100, 255, 1)';
+        const [r, g, b] = LINK_COLORS[link.operation];
+        ctx.shadowColor = `rgba(${r}, ${g}, ${b}, 1)`;
         ctx.shadowBlur = 20;
 
-        ctx.strokeStyle = `rgba(255, 100, 255, ${0.4 * pulse})`;
+        ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${0.4 * pulse})`;
         ctx.lineWidth = 7;
         ctx.beginPath();
         ctx.moveTo(aX, aY);
         ctx.lineTo(bX, bY);
         ctx.stroke();
 
-        ctx.strokeStyle = `rgba(255, 220, 255, ${0.9 * pulse})`;
+        ctx.strokeStyle = `rgba(${(r + 255) / 2}, ${(g + 255) / 2}, ${(b + 255) / 2}, ${0.9 * pulse})`;
         ctx.lineWidth = 2.5;
         ctx.beginPath();
         ctx.moveTo(aX, aY);
@@ -982,10 +1382,11 @@ const QuantumWormholeSimulator = () => {
     ctx.font = '12px monospace';
     ctx.textAlign = 'left';
     ctx.fillText(`t: ${framework.time.toFixed(1)}s`, 10, 20);
-    ctx.fillText(`Dual Circuit: ${circuitBEnabled ? 'ON' : 'OFF'}`, 10, 35);
+    ctx.fillText(`Circuits: ${quantumCircuits.length}`, 10, 35);
     ctx.fillText(`Inter-Entanglement: ${interCircuitEntanglementEnabled ? 'ON' : 'OFF'}`, 10, 50);
-    if (quantumCircuitA) ctx.fillText(`System A |1⟩⁵: ${(quantumCircuitA.getSystemProbability() * 100).toFixed(2)}%`, 10, 65);
-    if (quantumCircuitB) ctx.fillText(`System B |1⟩⁵: ${(quantumCircuitB.getSystemProbability() * 100).toFixed(2)}%`, 10, 80);
+    quantumCircuits.forEach((circuit, k) => {
+      ctx.fillText(`System ${circuit.circuitId} |1⟩${superscript(circuit.numQubits)}: ${(circuit.getSystemProbability() * 100).toFixed(2)}%`, 10, 65 + k * 15);
+    });
   };
 
 
@@ -998,16 +1399,134 @@ const QuantumWormholeSimulator = () => {
     ctx.fillStyle = '#1a1a1a';
     ctx.fillRect(0, 0, width, height);
     
-    const drawCircuit = (circuit: QuantumCircuit, gates: SelectedGates, offsetY: number, circuitHeight: number, title: string) => {
+    // Vertical line through every wire of a multi-qubit gate, with a dot on each control
+    const drawConnector = (x: number, ys: number[], color: string, controlCount = ys.length - 1) => {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(x, Math.min(...ys));
+        ctx.lineTo(x, Math.max(...ys));
+        ctx.stroke();
+        ctx.fillStyle = color;
+        ys.slice(0, controlCount).forEach(y => {
+            ctx.beginPath(); ctx.arc(x, y, 4, 0, 2 * Math.PI); ctx.fill();
+        });
+    };
+
+    const gateColor = (gate: GateName) => {
+        if (['X', 'Y', 'Z'].includes(gate)) return '#e24a4a';
+        if (['Rx', 'Ry', 'Rz'].includes(gate)) return '#e2a04a';
+        if (gate === 'T') return '#a04ae2';
+        return '#4a90e2';
+    };
+
+    const drawGateBox = (label: string, angle: string | undefined, x: number, y: number, color: string, boxWidth: number, boxHeight: number) => {
+        ctx.fillStyle = color;
+        ctx.fillRect(x - boxWidth/2, y - boxHeight/2, boxWidth, boxHeight);
+        ctx.fillStyle = 'white';
+        ctx.textAlign = 'center';
+        if (angle) {
+            ctx.font = 'bold 10px Arial';
+            ctx.fillText(label, x, y - 2);
+            ctx.font = '8px monospace';
+            const maxChars = Math.max(3, Math.floor(boxWidth / 5));
+            ctx.fillText(angle.length > maxChars ? `${angle.slice(0, maxChars - 1)}…` : angle, x, y + 9);
+        } else {
+            ctx.font = 'bold 11px Arial';
+            ctx.fillText(label, x, y + 3);
+        }
+    };
+
+    const drawControlledX = (x: number, controlYs: number[], targetY: number, color: string) => {
+        drawConnector(x, [...controlYs, targetY], color);
+
+        ctx.beginPath(); ctx.arc(x, targetY, 10, 0, 2 * Math.PI); ctx.stroke();
+        ctx.beginPath(); ctx.moveTo(x - 6, targetY); ctx.lineTo(x + 6, targetY); ctx.stroke();
+        ctx.beginPath(); ctx.moveTo(x, targetY - 6); ctx.lineTo(x, targetY + 6); ctx.stroke();
+    };
+
+    const drawOperation = (op: GateOperation, x: number, wireY: (qubitIdx: number) => number, boxWidth: number, boxHeight: number) => {
+        if (op.condition) {
+            // Classical condition, written above the operation's topmost qubit
+            ctx.fillStyle = '#f6e05e';
+            ctx.font = '8px monospace';
+            ctx.textAlign = 'center';
+            ctx.fillText(`c${op.condition.bit}=${op.condition.value}`, x, Math.min(...operationQubits(op).map(wireY)) - boxHeight / 2 - 3);
+        }
+        if (op.gate === 'M') {
+            drawGateBox('M', `c${measurementBit(op)}`, x, wireY(op.targets[0]), '#50c878', boxWidth, boxHeight);
+            return;
+        }
+        if (op.gate === 'SWAP') {
+            const [y1, y2] = op.targets.map(wireY);
+            ctx.strokeStyle = '#87CEEB';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.moveTo(x, y1);
+            ctx.lineTo(x, y2);
+            ctx.stroke();
+            ctx.lineWidth = 1.5;
+            const drawCross = (y: number) => {
+                ctx.beginPath(); ctx.moveTo(x - 4, y - 4); ctx.lineTo(x + 4, y + 4); ctx.stroke();
+                ctx.beginPath(); ctx.moveTo(x - 4, y + 4); ctx.lineTo(x + 4, y - 4); ctx.stroke();
+            };
+            drawCross(y1);
+            drawCross(y2);
+            return;
+        }
+        if (op.gate === 'CNOT' || op.gate === 'CCNOT') {
+            drawControlledX(x, op.controls.map(wireY), wireY(op.targets[0]), op.gate === 'CCNOT' ? '#f6ad55' : '#b794f4');
+            return;
+        }
+        if (op.gate === 'iSWAP') {
+            const [y1, y2] = op.targets.map(wireY);
+            drawConnector(x, [y1, y2], '#87CEEB');
+            drawGateBox('iSW', undefined, x, y1, '#3b7a99', boxWidth, boxHeight);
+            drawGateBox('iSW', undefined, x, y2, '#3b7a99', boxWidth, boxHeight);
+            return;
+        }
+        if (op.gate === 'CZ' || op.gate === 'CP') {
+            const targetY = wireY(op.targets[0]);
+            drawConnector(x, [...op.controls.map(wireY), targetY], '#f687b3');
+            ctx.beginPath(); ctx.arc(x, targetY, 4, 0, 2 * Math.PI); ctx.fill();
+            if (op.gate === 'CP') {
+                ctx.font = '8px monospace';
+                ctx.textAlign = 'left';
+                ctx.fillText(`P(${op.angle ?? DEFAULT_ROTATION_ANGLE})`, x + 6, targetY - 6);
+            }
+            return;
+        }
+        if (op.gate === 'CU') {
+            const targetY = wireY(op.targets[0]);
+            const unitary = op.unitary ?? 'X';
+            drawConnector(x, [...op.controls.map(wireY), targetY], '#63b3ed');
+            drawGateBox(unitary, usesAngle(op) ? op.angle ?? DEFAULT_ROTATION_ANGLE : undefined, x, targetY, gateColor(unitary), boxWidth, boxHeight);
+            return;
+        }
+        drawGateBox(op.gate, op.angle, x, wireY(op.targets[0]), gateColor(op.gate), boxWidth, boxHeight);
+    };
+
+    const drawCircuit = (circuit: QuantumCircuit, timeline: GateOperation[], band: CircuitBand, title: string) => {
+        const offsetY = band.top;
         ctx.fillStyle = 'white';
         ctx.font = 'bold 16px Arial';
         ctx.textAlign = 'center';
         ctx.fillText(title, width/2, offsetY - 15);
-        const qubitSpacing = circuitHeight / 6;
+        if (hasClassicalControl(timeline)) {
+            // Classical register, bit 0 first, as left by the mid-circuit measurements
+            const bits = Array.from({ length: Math.max(circuit.numQubits, circuit.classicalBits.length) }, (_, b) => circuit.classicalBits[b] ?? 0);
+            ctx.font = '11px monospace';
+            ctx.textAlign = 'right';
+            ctx.fillStyle = '#f6e05e';
+            ctx.fillText(`c = ${bits.join('')}`, width - 20, offsetY - 15);
+        }
+        const wireY = (qubitIdx: number) => bandWireY(band, qubitIdx);
         const probs = circuit.getCurrentProbabilities();
+        const gateWidth = 35;
+        const { gateHeight, measureX: mX } = band;
 
         probs.forEach((probData, qubitIdx) => {
-            const y = offsetY + qubitSpacing * (qubitIdx + 1);
+            const y = wireY(qubitIdx);
             ctx.strokeStyle = '#666';
             ctx.lineWidth = 2;
             ctx.beginPath();
@@ -1019,25 +1538,6 @@ const QuantumWormholeSimulator = () => {
             ctx.textAlign = 'center';
             ctx.fillText(`|${circuit.circuitId}${qubitIdx}⟩`, 15, y + 4);
 
-            let gateX = 60;
-            const gateWidth = 35;
-            const gateHeight = 25;
-            Object.entries(GATE_TYPES).forEach(([gateType, label]) => {
-                if ((gates as any)[gateType][qubitIdx]) {
-                    let gateColor = '#4a90e2';
-                    if (gateType.includes('pauli')) gateColor = '#e24a4a';
-                    if (gateType.includes('rotation')) gateColor = '#e2a04a';
-                    if (gateType === 'tGate') gateColor = '#a04ae2';
-                    ctx.fillStyle = gateColor;
-                    ctx.fillRect(gateX - gateWidth/2, y - gateHeight/2, gateWidth, gateHeight);
-                    ctx.fillStyle = 'white';
-                    ctx.font = 'bold 11px Arial';
-                    ctx.fillText(label, gateX, y + 3);
-                    gateX += gateWidth + 10;
-                }
-            });
-
-            const mX = width - 80;
             ctx.fillStyle = '#50c878';
             ctx.fillRect(mX - gateWidth/2, y - gateHeight/2, gateWidth, gateHeight);
             ctx.fillStyle = 'white';
@@ -1045,7 +1545,7 @@ const QuantumWormholeSimulator = () => {
             ctx.fillText('M', mX, y + 4);
             const barX = mX + 50;
             const barWidth = 50;
-            const barHeight = 16;
+            const barHeight = Math.min(16, gateHeight);
             ctx.fillStyle = '#333';
             ctx.fillRect(barX, y - barHeight/2, barWidth, barHeight);
             const probWidth = barWidth * probData.prob1;
@@ -1057,104 +1557,100 @@ const QuantumWormholeSimulator = () => {
             ctx.fillText(`${(probData.prob1 * 100).toFixed(1)}%`, barX + barWidth/2, y + 2);
         });
 
-        const maxSingleGates = Math.max(...Array.from({length: 5}, (_, i) => Object.keys(GATE_TYPES).reduce((count, gateType) => count + ((gates as any)[gateType][i] ? 1 : 0), 0)));
-        let currentMultiGateX = 60 + maxSingleGates * 45 + 20;
-
-        if (gates.swap.some(s => s)) {
-          gates.swap.forEach((isSwap, i) => {
-              if (isSwap) {
-                  const y1 = offsetY + qubitSpacing * (i + 1);
-                  const y2 = offsetY + qubitSpacing * (i + 2);
-                  ctx.strokeStyle = '#87CEEB';
-                  ctx.lineWidth = 2;
-                  ctx.beginPath();
-                  ctx.moveTo(currentMultiGateX, y1);
-                  ctx.lineTo(currentMultiGateX, y2);
-                  ctx.stroke();
-                  ctx.lineWidth = 1.5;
-                  const drawCross = (y: number) => {
-                      ctx.beginPath(); ctx.moveTo(currentMultiGateX - 4, y - 4); ctx.lineTo(currentMultiGateX + 4, y + 4); ctx.stroke();
-                      ctx.beginPath(); ctx.moveTo(currentMultiGateX - 4, y + 4); ctx.lineTo(currentMultiGateX + 4, y - 4); ctx.stroke();
-                  };
-                  drawCross(y1);
-                  drawCross(y2);
-              }
-          });
-          currentMultiGateX += 40;
-        }
+        sortTimeline(timeline).forEach(op => drawOperation(op, band.columnX.get(op.column)!, wireY, band.boxWidth, gateHeight));
 
-        if (gates.ccnot.some(c => c)) {
-          gates.ccnot.forEach((isCCNOT, i) => {
-              if (isCCNOT) {
-                  const c1 = i, c2 = i + 1, t = i + 2;
-                  const y1 = offsetY + qubitSpacing * (c1 + 1);
-                  const y2 = offsetY + qubitSpacing * (c2 + 1);
-                  const y3 = offsetY + qubitSpacing * (t + 1);
-
-                  ctx.strokeStyle = '#f6ad55'; // orange
-                  ctx.lineWidth = 2;
-                  ctx.beginPath();
-                  ctx.moveTo(currentMultiGateX, y1);
-                  ctx.lineTo(currentMultiGateX, y3);
-                  ctx.stroke();
-
-                  ctx.fillStyle = '#f6ad55';
-                  ctx.beginPath(); ctx.arc(currentMultiGateX, y1, 4, 0, 2 * Math.PI); ctx.fill();
-                  ctx.beginPath(); ctx.arc(currentMultiGateX, y2, 4, 0, 2 * Math.PI); ctx.fill();
-
-                  ctx.strokeStyle = '#f6ad55';
-                  ctx.lineWidth = 2;
-                  ctx.beginPath(); ctx.arc(currentMultiGateX, y3, 10, 0, 2 * Math.PI); ctx.stroke();
-                  ctx.beginPath(); ctx.moveTo(currentMultiGateX - 6, y3); ctx.lineTo(currentMultiGateX + 6, y3); ctx.stroke();
-                  ctx.beginPath(); ctx.moveTo(currentMultiGateX, y3 - 6); ctx.lineTo(currentMultiGateX, y3 + 6); ctx.stroke();
-              }
-          });
-          currentMultiGateX += 40;
+        // Editor highlights: hovered and selected operations, and where a drop or drag would place a gate
+        const outline = (op: GateOperation, color: string, lineWidth: number) => {
+            const { left, right, top, bottom } = operationBounds(band, op);
+            ctx.strokeStyle = color;
+            ctx.lineWidth = lineWidth;
+            ctx.strokeRect(left - 3, top - 3, right - left + 6, bottom - top + 6);
+        };
+        if (diagramHover?.circuit === circuit.circuitId && diagramHover.op) outline(diagramHover.op, 'rgba(255, 255, 255, 0.6)', 1);
+        if (diagramSelection?.circuit === circuit.circuitId) outline(diagramSelection.op, '#d6bcfa', 2);
+        const preview = diagramHover?.circuit === circuit.circuitId ? diagramHover.preview : undefined;
+        if (preview) {
+            const color = preview.qubits ? '#d6bcfa' : '#fc8181';
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 1;
+            ctx.setLineDash([4, 4]);
+            ctx.beginPath(); ctx.moveTo(preview.slot.x, wireY(0) - gateHeight / 2); ctx.lineTo(preview.slot.x, wireY(band.numQubits - 1) + gateHeight / 2); ctx.stroke();
+            ctx.setLineDash([]);
+            if (preview.qubits) {
+                const roles = gateQubitRoles(preview.gate);
+                const ys = preview.qubits.map(wireY);
+                ctx.globalAlpha = 0.6;
+                if (ys.length > 1) drawConnector(preview.slot.x, ys, color, roles.filter(role => role === 'control').length);
+                preview.qubits.forEach((q, i) => {
+                    if (roles[i] === 'target') drawGateBox(preview.gate, undefined, preview.slot.x, wireY(q), '#6b46c1', band.boxWidth, gateHeight);
+                });
+                ctx.globalAlpha = 1;
+            }
         }
     };
 
-    if (quantumCircuitA) {
-        drawCircuit(quantumCircuitA, selectedGatesA, 40, circuitBEnabled ? height / 2 - 20 : height - 40, 'Circuit A');
-    }
-    if (quantumCircuitB && circuitBEnabled) {
-        drawCircuit(quantumCircuitB, selectedGatesB, height / 2 + 30, height / 2 - 40, 'Circuit B');
-    }
-
-    if (interCircuitEntanglementEnabled && quantumCircuitA && quantumCircuitB) {
-        const connectionX = width - 200;
-        const qubitSpacingA = (circuitBEnabled ? height / 2 - 20 : height - 40) / 6;
-        const qubitSpacingB = (height / 2 - 40) / 6;
-        interCircuitEntanglement.forEach(([aQubit, bQubit]) => {
-            const y1 = 40 + qubitSpacingA * (aQubit + 1);
-            const y2 = height / 2 + 30 + qubitSpacingB * (bQubit + 1);
-            ctx.strokeStyle = '#ff6bff'; ctx.lineWidth = 4; ctx.setLineDash([8, 8]);
+    const bands = circuitDiagramLayout(quantumCircuits.map(circuit => ({ id: circuit.circuitId, numQubits: circuit.numQubits, timeline: circuit.timeline ?? [] })), width, height);
+    quantumCircuits.forEach((circuit, k) => {
+        drawCircuit(circuit, circuit.timeline ?? [], bands[k], `Circuit ${circuit.circuitId}`);
+    });
+
+    if (interCircuitEntanglementEnabled) {
+        interCircuitEntanglement.forEach((link, idx) => {
+            const from = quantumCircuits.findIndex(c => c.circuitId === link.from);
+            const to = quantumCircuits.findIndex(c => c.circuitId === link.to);
+            if (from < 0 || to < 0) return;
+            // Side by side, so links sharing a band stay distinguishable
+            const connectionX = width - 200 - idx * 14;
+            const y1 = bandWireY(bands[from], link.fromQubit);
+            const y2 = bandWireY(bands[to], link.toQubit);
+            const color = `rgb(${LINK_COLORS[link.operation].join(', ')})`;
+            ctx.strokeStyle = color; ctx.lineWidth = 4; ctx.setLineDash([8, 8]);
             ctx.beginPath(); ctx.moveTo(connectionX, y1); ctx.lineTo(connectionX, y2); ctx.stroke();
             ctx.setLineDash([]);
-            ctx.fillStyle = '#ff6bff';
+            ctx.fillStyle = color;
             ctx.beginPath(); ctx.arc(connectionX, y1, 4, 0, 2 * Math.PI); ctx.fill();
             ctx.beginPath(); ctx.arc(connectionX, y2, 4, 0, 2 * Math.PI); ctx.fill();
+            ctx.font = '8px monospace';
+            ctx.textAlign = 'center';
+            ctx.fillText(link.operation.toUpperCase(), connectionX, (y1 + y2) / 2);
         });
     }
 
     ctx.fillStyle = 'white'; ctx.font = '11px monospace'; ctx.textAlign = 'left';
-    if (measurementResultsA.length > 0) {
-      ctx.fillText('Circuit A measure:', 10, height - 50);
-      ctx.fillText(`|${measurementResultsA.join('')}⟩`, 10, height - 35);
-    }
-    if (measurementResultsB.length > 0 && circuitBEnabled) {
-      ctx.fillText('Circuit B measure:', 200, height - 50);
-      ctx.fillText(`|${measurementResultsB.join('')}⟩`, 200, height - 35);
-    }
+    measurementResults.forEach((results, k) => {
+      if (results.length === 0 || !quantumCircuits[k]) return;
+      const x = 10 + (k % 3) * 190;
+      const y = height - 50 - Math.floor(k / 3) * 30;
+      ctx.fillText(`Circuit ${quantumCircuits[k].circuitId} measure:`, x, y);
+      ctx.fillText(`|${results.join('')}⟩`, x, y + 15);
+    });
   };
 
   useEffect(() => {
-    if (framework && quantumCircuitA) {
+    if (framework && quantumCircuits.length > 0) {
       setTimeout(() => {
         renderVisualization();
         renderQuantumCircuit();
       }, 100);
     }
-  }, [framework, quantumCircuitA, quantumCircuitB, circuitBEnabled]);
+  }, [framework, quantumCircuits]);
+
+  useEffect(() => {
+    renderQuantumCircuit();
+  }, [diagramHover, diagramSelection]);
+
+  // Edits elsewhere (the gate list, undo) can remove the selected operation
+  useEffect(() => {
+    if (diagramSelection && !circuitConfigs.find(config => config.id === diagramSelection.circuit)?.timeline.includes(diagramSelection.op)) {
+      setDiagramSelection(null);
+    }
+  }, [circuitConfigs]);
+
+  // Tall enough for ~24px between wires at the widest circuit
+  const widestCircuit = Math.max(...circuitConfigs.map(config => config.numQubits));
+  const circuitCanvasHeight = circuitConfigs.length > 1
+    ? Math.max(500, 40 + circuitConfigs.length * (30 + 24 * (widestCircuit + 1)) + 40)
+    : Math.max(300, 80 + 24 * (widestCircuit + 1));
 
   const toggleSimulation = () => setIsRunning(!isRunning);
 
@@ -1165,35 +1661,40 @@ const QuantumWormholeSimulator = () => {
     setPhaseVector({ x: 0, y: 0 });
     setReconstructionData(null);
     setAiAnalysis('');
-    if (quantumCircuitA) quantumCircuitA.resetCircuit();
-    if (quantumCircuitB) quantumCircuitB.resetCircuit();
-    setMeasurementResultsA([]);
-    setMeasurementResultsB([]);
-    const circuitA = new QuantumCircuit(5, 'A', selectedGatesA);
-    setQuantumCircuitA(circuitA);
-    let circuitB = null;
-    if (circuitBEnabled) {
-      circuitB = new QuantumCircuit(5, 'B', selectedGatesB);
-      setQuantumCircuitB(circuitB);
-      if (interCircuitEntanglementEnabled) {
-        const connections = [[2, 2]];
-        circuitA.createInterCircuitEntanglement(circuitB, connections);
-      }
-    }
-    setFramework(new QuantumLaminarFlow(GRID_SIZE, [10.0, 10.0], circuitA, circuitB));
+    setMeasurementResults([]);
+    setShotResults(null);
+    shotRunRef.current++;
+    setShotProgress(null);
+    const circuits = buildCircuits();
+    setQuantumCircuits(circuits);
+    const flow = new QuantumLaminarFlow(GRID_SIZE, [10.0, 10.0], circuits, rngRef.current);
+    setFramework(flow);
+    setEntanglementData(flow.entanglement);
   };
   
+  const templateConfig = circuitConfigs.find(config => config.id === templateTarget) ?? circuitConfigs[0];
+  // Grover's marked state, wrapped into the target circuit's basis
+  const templateMarked = templateOptions.marked % (1 << templateConfig.numQubits);
+
   const handleClearGates = () => {
-    const freshGates = {
-      ...initialGates,
-      hadamard: [true, true, true, true, true],
-    };
-    setSelectedGatesA(freshGates);
-    setSelectedGatesB(freshGates);
+    historyLabelRef.current = 'Limpiar circuitos';
+    setCircuitConfigs(prev => prev.map(config => ({ ...config, timeline: createBaseTimeline(config.numQubits) })));
   };
 
-  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!framework) return;
+  // Replaces the target circuit's timeline with the template built for its width
+  const handleLoadTemplate = (template: CircuitTemplate) => {
+    const error = templateWidthError(template, templateConfig.numQubits);
+    if (error) {
+      alert(error);
+      return;
+    }
+    const timeline = buildTemplate(template.id, templateConfig.numQubits, { ...templateOptions, marked: templateMarked }, rngRef.current);
+    historyLabelRef.current = `Plantilla ${template.label} en ${templateConfig.id}`;
+    setCircuitConfigs(prev => prev.map(config => config.id === templateConfig.id ? { ...config, timeline } : config));
+  };
+
+  // Qubit drawn nearest to the pointer on the flow canvas, within a 40px detection radius
+  const qubitAtPointer = (event: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current!;
     const rect = canvas.getBoundingClientRect();
     const scaleX = canvas.width / rect.width;
@@ -1204,11 +1705,11 @@ const QuantumWormholeSimulator = () => {
     let closestQubit: any = null;
     let minDistance = Infinity;
 
-    const checkQubits = (qubits: any[], circuit: 'A' | 'B') => {
+    const checkQubits = (qubits: any[], circuitIdx: number) => {
+      const circuit = quantumCircuits[circuitIdx]?.circuitId;
       qubits.forEach((q, idx) => {
-        const isB = circuit === 'B';
-        const centerX = (0.15 + 0.12 * idx) * canvas.width;
-        const centerY = (circuitBEnabled ? (isB ? 0.75 : 0.25) : 0.5) * canvas.height;
+        const centerX = qubitLayoutX(idx, qubits.length) * canvas.width;
+        const centerY = circuitLayoutY(circuitIdx, qubitStates.length) * canvas.height;
         const distance = Math.sqrt((x - centerX)**2 + (y - centerY)**2);
         if (distance < minDistance) {
           minDistance = distance;
@@ -1217,12 +1718,16 @@ const QuantumWormholeSimulator = () => {
       });
     };
 
-    if (qubitStatesA.length > 0) checkQubits(qubitStatesA, 'A');
-    if (circuitBEnabled && qubitStatesB.length > 0) checkQubits(qubitStatesB, 'B');
+    qubitStates.forEach((states, circuitIdx) => checkQubits(states, circuitIdx));
+    return minDistance < 40 ? closestQubit : null;
+  };
 
-    if (closestQubit && minDistance < 40) { // Detection radius of 40px
-      const q = closestQubit;
-      const content = `Qubit ${q.circuit}${q.idx} | P(|1⟩): ${(q.prob1 * 100).toFixed(1)}% | Phase: ${q.phase.toFixed(2)}`;
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!framework) return;
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const q = qubitAtPointer(event);
+    if (q) {
+      const content = `Qubit ${q.circuit}${q.idx} | P(|1⟩): ${(q.prob1 * 100).toFixed(1)}% | Phase: ${q.phase.toFixed(2)} | Pureza: ${q.purity.toFixed(3)}`;
       setTooltip({ x: event.clientX - rect.left + 15, y: event.clientY - rect.top, content });
     } else {
       setTooltip(null);
@@ -1233,43 +1738,180 @@ const QuantumWormholeSimulator = () => {
     setTooltip(null);
   };
 
+  const focusedState = qubitStates.flat().find(state => state.id === focusedQubit);
 
-  const performMeasurement = () => {
-    if (quantumCircuitA) {
-      const resultsA = quantumCircuitA.measureAll();
-      setMeasurementResultsA(resultsA);
-      setQubitStatesA(quantumCircuitA.getCurrentProbabilities() as any);
-    }
-    if (quantumCircuitB && circuitBEnabled) {
-      const resultsB = quantumCircuitB.measureAll();
-      setMeasurementResultsB(resultsB);
-      setQubitStatesB(quantumCircuitB.getCurrentProbabilities() as any);
-    }
-  };
+  // The inspected circuit's register and the label of each of its qubits, linked circuits included
+  const inspectedCircuit = quantumCircuits.find(circuit => circuit.circuitId === inspectedConfig?.id);
+  const inspectedQubitLabels: string[] = [];
+  quantumCircuits
+    .filter(circuit => inspectedCircuit && circuit.register === inspectedCircuit.register)
+    .forEach(circuit => circuit.qubits.forEach(qubit => { inspectedQubitLabels[qubit.registerIndex] = qubit.id; }));
 
-  const handleReconstruction = () => {
-    if (!quantumCircuitA) return;
-
-    const convertToCircuitType = (qc: QuantumCircuit): CircuitType => {
-        const qubits: QubitType[] = qc.qubits.map((q, idx) => ({
-            id: idx,
-            amplitude: Math.abs(q.state[1]),
-            phase: q.phase,
-            coherence: 1.0,
-        }));
-        return { id: qc.circuitId, qubits };
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!framework) return;
+    const q = qubitAtPointer(event);
+    if (!q) return;
+    setFocusedQubit(`${q.circuit}${q.idx}`);
+    blochPanelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+
+  const performMeasurement = () => {
+    setMeasurementResults(quantumCircuits.map(circuit => circuit.measureAll()));
+    setQubitStates(quantumCircuits.map(circuit => circuit.getCurrentProbabilities()));
+  };
+
+  // Samples every register once per shot, so circuits sharing a joint register stay correlated
+  // Sampling and readout errors draw from their own stream, leaving the engine's untouched
+  // Mid-circuit measurements pick one branch of the live state, so with classical control every
+  // shot instead re-runs the circuits from t=0 and samples that fresh run; those batches are
+  // capped at SHOT_LIMITS.rerun shots and yield to the page every few milliseconds
+  const runShots = () => {
+    if (quantumCircuits.length === 0 || shotProgress !== null) return;
+    const rerun = circuitConfigs.some(config => hasClassicalControl(config.timeline));
+    const shots = rerun ? Math.min(shotCount, SHOT_LIMITS.rerun) : shotCount;
+    const random = createRng(rngSeed ^ SHOT_STREAM);
+    // Gate noise on M acts on a copy of each sampled register, as it would right before measuring
+    const measured = (register: QuantumRegister, shotCircuits: QuantumCircuit[]) => {
+      if (!(register instanceof DensityMatrix)) return register;
+      const copy = register.clone();
+      shotCircuits
+        .filter(circuit => circuit.register === register)
+        .forEach(circuit => circuit.applyGateNoise('M', circuit.qubits.map((_, idx) => idx), copy));
+      return copy;
+    };
+    const registers: QuantumRegister[] = [...new Set<QuantumRegister>(quantumCircuits.map(circuit => circuit.register))];
+    const samples = rerun ? null : new Map(registers.map(register => [register, sampleShots(measured(register, quantumCircuits), shots, random)]));
+    const circuits: Record<string, ShotHistogram> = Object.fromEntries(quantumCircuits.map(circuit => [circuit.circuitId, {}]));
+    const joint: ShotHistogram = {};
+    const run = ++shotRunRef.current;
+    let shot = 0;
+    const takeShots = () => {
+      // A configuration change since the batch started makes it stale
+      if (run !== shotRunRef.current) return;
+      const deadline = performance.now() + SHOT_LIMITS.chunk_ms;
+      for (; shot < shots && (!rerun || performance.now() < deadline); shot++) {
+        const shotCircuits: QuantumCircuit[] = rerun ? buildCircuits(random) : quantumCircuits;
+        const fresh = new Map<QuantumRegister, number>();
+        const sample = (register: QuantumRegister) => {
+          if (samples) return samples.get(register)![shot];
+          if (!fresh.has(register)) fresh.set(register, sampleShots(measured(register, shotCircuits), 1, random)[0]);
+          return fresh.get(register)!;
+        };
+        const bitstrings = shotCircuits.map(circuit => {
+          const bits = circuit.readout(sample(circuit.register), random);
+          circuits[circuit.circuitId][bits] = (circuits[circuit.circuitId][bits] || 0) + 1;
+          return bits;
+        });
+        const key = bitstrings.join(' ');
+        joint[key] = (joint[key] || 0) + 1;
+      }
+      if (shot < shots) {
+        setShotProgress(shot);
+        setTimeout(takeShots, 0);
+        return;
+      }
+      setShotProgress(null);
+      setShotResults({ shots, requested: shotCount, circuits, joint, rerun });
     };
+    takeShots();
+  };
 
-    const circuitA_typed = convertToCircuitType(quantumCircuitA);
-    const circuitB_typed = circuitBEnabled && quantumCircuitB 
-        ? convertToCircuitType(quantumCircuitB)
-        : { id: 'B', qubits: Array.from({length: 5}, (_, i) => ({ id: i, amplitude: 0, phase: 0, coherence: 1.0 })) };
+  const convertToCircuitType = (qc: QuantumCircuit): CircuitType => {
+      const qubits: QubitType[] = qc.qubits.map((q, idx) => {
+          const { alpha, beta } = q.getAmplitudes();
+          return {
+              id: idx,
+              alpha,
+              beta,
+              amplitude: abs(beta),
+              phase: arg(beta),
+              coherence: q.getPurity(),
+          };
+      });
+      return { id: qc.circuitId, qubits };
+  };
+
+  const handleReconstruction = () => {
+    if (quantumCircuits.length === 0) return;
 
-    const fragmentationSystem = createWormholeFragmentationSystem(circuitA_typed, circuitB_typed);
+    const fragmentationSystem = createWormholeFragmentationSystem(quantumCircuits.map(convertToCircuitType), wormholeConfig, wormholeMetric, tunnelingMethod, { ...fragmentation, seed: rngSeed });
     const results = reconstructWithWormholeGeometry(fragmentationSystem);
     setReconstructionData(results);
   };
 
+  // The same circuits through every metric family, with the applied parameters
+  const handleCompareMetrics = () => {
+    if (quantumCircuits.length === 0) return;
+    try {
+      setMetricComparison(compareMetricFamilies(quantumCircuits.map(convertToCircuitType), wormholeConfig, wormholeMetric, tunnelingMethod, { ...fragmentation, seed: rngSeed }));
+    } catch (error) {
+      console.error("Error comparing metric families:", error);
+      alert(`No se pudieron comparar las métricas: ${(error as Error).message}`);
+    }
+  };
+
+  // Every sweep point reruns the protocol, so let the button show its busy state before blocking
+  const handleTeleportation = () => {
+    setIsTeleporting(true);
+    setTimeout(() => {
+      try {
+        setTeleportationData(runTeleportationProtocol({ ...teleportationConfig, seed: rngSeed }));
+      } catch (error) {
+        console.error("Error en el protocolo de teletransporte:", error);
+      } finally {
+        setIsTeleporting(false);
+      }
+    }, 0);
+  };
+
+  // The panel shows the applied config again after undo or a seed load
+  useEffect(() => {
+    setWormholeDraft(wormholeDraftFor(wormholeConfig));
+  }, [wormholeConfig]);
+
+  useEffect(() => {
+    setMetricDraft(wormholeMetric);
+  }, [wormholeMetric]);
+
+  useEffect(() => {
+    setFragmentationDraft(fragmentation);
+  }, [fragmentation]);
+
+  const wormholeDraftErrors = wormholeConfigErrors(parseWormholeDraft(wormholeDraft));
+  // Expressions are checked against the drafted throat radius when it is valid
+  const metricDraftErrors = metricConfigErrors(
+    metricDraft,
+    wormholeDraftErrors.wormhole_distance ? wormholeConfig.wormhole_distance : parseWormholeDraft(wormholeDraft).wormhole_distance
+  );
+  const fragmentationDraftErrors = fragmentationConfigErrors(fragmentationDraft);
+  const wormholeDraftValid = [wormholeDraftErrors, metricDraftErrors, fragmentationDraftErrors].every(errors => Object.keys(errors).length === 0);
+
+  const applyWormholeConfig = () => {
+    if (!wormholeDraftValid) return;
+    setWormholeConfig(parseWormholeDraft(wormholeDraft));
+    setWormholeMetric(metricDraft);
+    setFragmentation(fragmentationDraft);
+    // Earlier results came from the old geometry
+    setReconstructionData(null);
+    setMetricComparison(null);
+  };
+
+  const updateMetricDraft = (changes: Partial<MetricConfig>) => setMetricDraft(prev => ({ ...prev, ...changes }));
+
+  const updateFragmentationDraft = (changes: Partial<FragmentationConfig>) => setFragmentationDraft(prev => ({ ...prev, ...changes }));
+
+  const updateTunnelingMethod = (method: TunnelingMethod) => {
+    setTunnelingMethod(method);
+    setReconstructionData(null);
+    setMetricComparison(null);
+  };
+
+  const updateTeleportationConfig = (changes: Partial<TeleportationConfig>) => {
+    setTeleportationConfig(prev => ({ ...prev, ...changes }));
+    setTeleportationData(null);
+  };
+
   const handleAiAnalysis = async () => {
     if (!process.env.API_KEY) {
       setAiAnalysis("Error: La API Key de Gemini no está configurada.");
@@ -1281,26 +1923,44 @@ const QuantumWormholeSimulator = () => {
     try {
       const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const prompt = `
-Actúa como un físico cuántico experto analizando los resultados de una nueva sesión de un simulador de circuitos cuánticos duales a través de un wormhole. A continuación se presentan los datos de la simulación. Proporciona un análisis conciso en formato markdown.
+Actúa como un físico cuántico experto analizando los resultados de una nueva sesión de un simulador de circuitos cuánticos conectados a través de un wormhole. A continuación se presentan los datos de la simulación. Proporciona un análisis conciso en formato markdown.
 
 **Configuración de la Simulación:**
-- **Circuito Dual:** ${circuitBEnabled ? 'Activado' : 'Desactivado'}
-- **Entrelazamiento Inter-Circuito:** ${interCircuitEntanglementEnabled ? 'Activado' : 'Desactivado'}
-- **Configuración de Puertas (Circuito A):** ${JSON.stringify(selectedGatesA, null, 2)}
-- **Configuración de Puertas (Circuito B):** ${circuitBEnabled ? JSON.stringify(selectedGatesB, null, 2) : 'N/A'}
+- **Número de Circuitos:** ${circuitConfigs.length}
+- **Qubits por Circuito:** ${circuitConfigs.map(config => `${config.id}=${config.numQubits}`).join(', ')}
+- **Entrelazamiento Inter-Circuito:** ${interCircuitEntanglementEnabled ? `Activado (${interCircuitEntanglement.map(link => `${describeLink(link)} ${LINK_OPERATION_LABELS[link.operation]}`).join(', ')})` : 'Desactivado'}
+- **Modelo de Ruido (Matriz de Densidad):** ${densityMatrixMode ? JSON.stringify(noiseModel) : 'Desactivado'}
+${circuitConfigs.map(config => `- **Secuencia de Puertas (Circuito ${config.id}):** ${JSON.stringify(sortTimeline(config.timeline))}`).join('\n')}
+- **Parámetros:** ${JSON.stringify(resolveParameters())}
 
 **Métricas de Coherencia (Resumen):**
 - **Coherencia de Fase (Final):** ${metricsHistory.length > 0 ? Math.sqrt(phaseVector.x**2 + phaseVector.y**2).toFixed(4) : 'N/A'}
 - **Longitud de Coherencia (Final):** ${metricsHistory.length > 0 ? metricsHistory[metricsHistory.length - 1].streamlineCoherence.toFixed(4) : 'N/A'}
 
+**Medidas de Entrelazamiento:**
+${entanglementData ? `- **Entropía por Qubit (bits):** ${entanglementData.qubits.map(q => `${q.id}=${q.entropy.toFixed(3)}`).join(', ')}
+${entanglementData.circuits.map(c => `- **S(${c.id}):** ${formatMeasure(c.entropy)}`).join('\n')}
+${entanglementData.pairs.map(p => `- **${p.a}↔${p.b}:** información mutua ${formatMeasure(p.mutual_information)}, negatividad ${formatMeasure(p.negativity)}`).join('\n')}` : 'N/A'}
+
 **Resultados de Reconstrucción del Wormhole:**
-- **Tunelización Promedio:** ${reconstructionData ? (reconstructionData.average_tunneling * 100).toFixed(2) + '%' : 'N/A'}
+- **Parámetros:** masa de Majorana ${wormholeConfig.majorana_mass} kg, ξ = ${wormholeConfig.curvature_coupling}, energía oscura ${wormholeConfig.dark_energy} J, radio de la garganta ${wormholeConfig.wormhole_distance} m, evolución ${wormholeConfig.teleport_time} s, ${wormholeConfig.num_points} puntos
+- **Métrica:** ${METRIC_FAMILIES[wormholeMetric.family].label}${usesMetricExpressions(wormholeMetric.family) ? ` (b(r) = ${wormholeMetric.shape}, Φ(r) = ${wormholeMetric.redshift})` : ''}${wormholeMetric.family === 'thin_shell' ? ` (r_s/a = ${wormholeMetric.compactness})` : ''}${wormholeMetric.family === 'teo' ? `, J/b0² = ${wormholeMetric.spin}` : ''}
+- **Fragmentación:** ${fragmentation.num_fragments} fragmentos, muestreo ${FRAGMENT_SAMPLING_LABELS[fragmentation.sampling]}${fragmentation.sampling === 'gaussian' ? ` (σ = ${fragmentation.spread})` : ''}, cuadrícula de ${fragmentation.grid_width} columnas, ${fragmentation.num_sectors} sectores
+- **Tunelización Promedio (${TUNNELING_METHOD_LABELS[tunnelingMethod]}):** ${reconstructionData ? (reconstructionData.average_tunneling * 100).toFixed(2) + '%' : 'N/A'}
 ${reconstructionData ? `
+- **Altura de la Barrera:** ${reconstructionData.tunneling_spectrum.barrier_height.toFixed(3)} ħ²/(2m b0²)
+- **Resonancias de Transmisión:** ${reconstructionData.tunneling_spectrum.resonances.map(r => `E=${r.energy.toFixed(3)} (T=${r.transmission.toFixed(3)}, Γ=${r.width.toFixed(4)})`).join(', ') || 'ninguna'}
+- **Campo de Majorana (Dirac 1+1D):** brecha de masa ${reconstructionData.dirac_spectrum.mass_gap.toFixed(3)} ħc/b0, evolución t=${reconstructionData.dirac_spectrum.evolution_time.toFixed(3)} b0/c
+- **Estados Ligados:** ${reconstructionData.dirac_spectrum.bound_states.map(state => `E=${state.energy.toExponential(2)} (χ=${state.chirality.toFixed(2)}${state.zero_mode ? ', modo cero' : ''})`).join(', ') || 'ninguno'}
 - **Eficiencia del Wormhole:** ${(reconstructionData.wormhole_efficiency * 100).toFixed(2)}%
-- **Fidelidad Circuito A:** ${(reconstructionData.circuit_A.wormhole_fidelity * 100).toFixed(2)}%
-- **Fidelidad Circuito B:** ${circuitBEnabled ? (reconstructionData.circuit_B.wormhole_fidelity * 100).toFixed(2) + '%' : 'N/A'}
+${reconstructionData.circuits.map(circuit => `- **Fidelidad Circuito ${circuit.id}:** ${(circuit.wormhole_fidelity * 100).toFixed(2)}%`).join('\n')}
 ` : 'Aún no se ha realizado la reconstrucción.'}
 
+**Protocolo de Teletransporte por Wormhole (${teleportationConfig.numQubits} qubits por lado):**
+${teleportationData ? `- **Fidelidad del Mensaje:** ${(teleportationData.fidelity * 100).toFixed(2)}% (μ=${teleportationData.config.coupling.toFixed(2)}, t=${teleportationData.config.time.toFixed(2)}; sin acoplamiento ${(teleportationData.baseline * 100).toFixed(2)}%)
+- **Fidelidad frente a μ:** ${JSON.stringify(teleportationData.coupling_sweep.map(p => [+p.coupling.toFixed(2), +p.fidelity.toFixed(3)]))}
+- **Fidelidad frente a t:** ${JSON.stringify(teleportationData.time_sweep.map(p => [+p.time.toFixed(2), +p.fidelity.toFixed(3)]))}` : 'Aún no se ha ejecutado el protocolo.'}
+
 **Análisis Solicitado:**
 1.  **Interpretación General:** Basado en la configuración de las puertas y la tunelización, ¿qué tipo de estado cuántico se está intentando crear? ¿Es un estado altamente entrelazado o caótico?
 2.  **Análisis de Métricas:** Explica el comportamiento de la "Coherencia de Fase", la "Longitud de Coherencia" y la "Tunelización Promedio". ¿Cómo se relacionan entre sí en esta simulación?
@@ -1323,27 +1983,346 @@ ${reconstructionData ? `
     }
   };
 
-  const toggleGate = (circuit: 'A' | 'B', gateType: string, qubitIdx: number) => {
-    const setter = circuit === 'A' ? setSelectedGatesA : setSelectedGatesB;
-    setter(prev => ({ ...prev, [gateType]: (prev as any)[gateType].map((gate: boolean, idx: number) => idx === qubitIdx ? !gate : gate) }));
+  const buildOperation = (draft: GateDraft): Omit<GateOperation, 'column'> => {
+    const roles = gateQubitRoles(draft.gate);
+    const qubits = draft.qubits.slice(0, roles.length);
+    const op: Omit<GateOperation, 'column'> = {
+      gate: draft.gate,
+      controls: qubits.filter((_, i) => roles[i] === 'control'),
+      targets: qubits.filter((_, i) => roles[i] === 'target')
+    };
+    if (draft.gate === 'CU') op.unitary = draft.unitary;
+    if (usesAngle(op)) op.angle = draft.angle.trim();
+    if (draft.gate === 'M') op.bit = draft.bit;
+    if (draft.condition) op.condition = draft.condition;
+    return op;
+  };
+
+  const draftFor = (circuit: string) => gateDrafts[circuit] ?? DEFAULT_GATE_DRAFT;
+
+  const updateGateDraft = (circuit: string, changes: Partial<GateDraft>) => {
+    setGateDrafts(prev => ({ ...prev, [circuit]: { ...(prev[circuit] ?? DEFAULT_GATE_DRAFT), ...changes } }));
+  };
+
+  const addGateOperation = (circuit: string) => {
+    const draft = draftFor(circuit);
+    const numQubits = circuitConfigs.find(config => config.id === circuit)?.numQubits ?? 0;
+    const qubits = draft.qubits.slice(0, gateQubitRoles(draft.gate).length);
+    if (qubits.some(q => q >= numQubits)) {
+      alert(`El circuito ${circuit} solo tiene ${numQubits} qubits.`);
+      return;
+    }
+    if (new Set(qubits).size !== qubits.length) {
+      alert('Los qubits de una puerta deben ser distintos.');
+      return;
+    }
+    const angleError = usesAngle(draft) ? expressionError(draft.angle) : null;
+    if (angleError) {
+      alert(`Ángulo inválido: ${angleError}`);
+      return;
+    }
+    // An empty column places the gate right after the last one on its qubits
+    const column = draft.column.trim() === '' ? undefined : Math.max(0, parseInt(draft.column, 10) || 0);
+    updateTimeline(circuit, prev => appendOperation(prev, buildOperation(draft), column));
+  };
+
+  const removeGateOperation = (circuit: string, op: GateOperation) => {
+    updateTimeline(circuit, prev => prev.filter(other => other !== op));
+  };
+
+  const moveGateOperation = (circuit: string, op: GateOperation, delta: number) => {
+    updateTimeline(circuit, prev => prev.map(other => other === op ? { ...other, column: Math.max(0, other.column + delta) } : other));
+  };
+
+  // Pointer position in the circuit canvas's own pixels, with the diagram layout it falls on
+  const diagramPointer = (event: { clientX: number; clientY: number }) => {
+    const canvas = circuitCanvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * canvas.width / rect.width,
+      y: (event.clientY - rect.top) * canvas.height / rect.height,
+      bands: circuitDiagramLayout(circuitConfigs, canvas.width, canvas.height)
+    };
+  };
+
+  const diagramOperationAt = (event: { clientX: number; clientY: number }) => {
+    const { x, y, bands } = diagramPointer(event);
+    const band = bandAt(bands, y);
+    const config = band && circuitConfigs.find(candidate => candidate.id === band.id);
+    return band && config ? { circuit: band.id, op: operationAt(band, config.timeline, x, y) } : null;
+  };
+
+  // Gates placed on the diagram take their angle and U from the circuit's editor draft
+  const placeDiagramGate = (circuit: string, gate: GateName, qubits: number[], slot: DiagramSlot) => {
+    const op = buildOperation({ ...draftFor(circuit), gate, qubits, bit: qubits[0], condition: null });
+    historyLabelRef.current = `Añadir ${describeOperation(circuit, { ...op, column: slot.column })}`;
+    updateTimeline(circuit, prev => placeOperation(prev, op, slot));
+  };
+
+  const removeDiagramOperation = (circuit: string, op: GateOperation) => {
+    historyLabelRef.current = `Eliminar ${describeOperation(circuit, op)}`;
+    removeGateOperation(circuit, op);
+    setDiagramSelection(null);
+  };
+
+  // Without a palette tool, pressing on a gate selects it and starts moving it. With one, a
+  // single-qubit gate is placed at once and a multi-qubit gate is drawn by dragging to its last wire.
+  const handleDiagramPointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y, bands } = diagramPointer(event);
+    const band = bandAt(bands, y);
+    if (!band) {
+      setDiagramSelection(null);
+      return;
+    }
+    const wire = wireAt(band, y)!;
+    const config = circuitConfigs.find(candidate => candidate.id === band.id)!;
+    const op = diagramTool ? null : operationAt(band, config.timeline, x, y);
+    if (op) {
+      setDiagramSelection({ circuit: band.id, op });
+      diagramDragRef.current = { kind: 'move', circuit: band.id, op, wire, moved: false };
+      event.currentTarget.setPointerCapture(event.pointerId);
+    } else if (diagramTool && gateQubitRoles(diagramTool).length === 1) {
+      placeDiagramGate(band.id, diagramTool, [wire], slotAt(band, x));
+    } else if (diagramTool) {
+      diagramDragRef.current = { kind: 'draw', circuit: band.id, gate: diagramTool, from: wire };
+      event.currentTarget.setPointerCapture(event.pointerId);
+    } else {
+      setDiagramSelection(null);
+    }
+  };
+
+  const handleDiagramPointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y, bands } = diagramPointer(event);
+    const drag = diagramDragRef.current;
+    const band = drag ? bands.find(candidate => candidate.id === drag.circuit) : bandAt(bands, y);
+    if (!band) {
+      setDiagramHover(null);
+      return;
+    }
+    // A drag keeps to its own circuit, snapping to the nearest of its wires
+    const wire = drag ? Math.min(band.numQubits - 1, Math.max(0, Math.round((y - band.top) / band.wireSpacing) - 1)) : wireAt(band, y)!;
+    const slot = slotAt(band, x);
+    if (drag?.kind === 'move') {
+      const qubits = operationQubits(drag.op).map(q => q + wire - drag.wire);
+      drag.moved = drag.moved || wire !== drag.wire || slot.column !== drag.op.column || slot.insert;
+      setDiagramHover({ circuit: band.id, preview: { gate: drag.op.gate, qubits: qubits.every(q => q >= 0 && q < band.numQubits) ? qubits : null, slot } });
+    } else if (drag?.kind === 'draw') {
+      // Releasing on the starting wire places the gate as a click would
+      const qubits = wire === drag.from ? droppedQubits(drag.gate, wire, band.numQubits) : drawnQubits(drag.gate, drag.from, wire);
+      setDiagramHover({ circuit: band.id, preview: { gate: drag.gate, qubits, slot } });
+    } else if (diagramTool) {
+      setDiagramHover({ circuit: band.id, preview: { gate: diagramTool, qubits: droppedQubits(diagramTool, wire, band.numQubits), slot } });
+    } else {
+      const config = circuitConfigs.find(candidate => candidate.id === band.id);
+      const op = config ? operationAt(band, config.timeline, x, y) : null;
+      setDiagramHover(op ? { circuit: band.id, op } : null);
+    }
   };
 
-  const toggleSwapGate = (circuit: 'A' | 'B', pairIdx: number) => {
-    const setter = circuit === 'A' ? setSelectedGatesA : setSelectedGatesB;
-    setter(prev => ({ ...prev, swap: prev.swap.map((gate, idx) => idx === pairIdx ? !gate : gate) }));
+  const handleDiagramPointerUp = () => {
+    const drag = diagramDragRef.current;
+    const preview = diagramHover?.preview;
+    diagramDragRef.current = null;
+    setDiagramHover(null);
+    if (!drag || !preview?.qubits) return;
+    if (drag.kind === 'draw') {
+      placeDiagramGate(drag.circuit, drag.gate, preview.qubits, preview.slot);
+    } else if (drag.moved) {
+      const wireDelta = preview.qubits[0] - operationQubits(drag.op)[0];
+      historyLabelRef.current = `Mover ${describeOperation(drag.circuit, drag.op)}`;
+      updateTimeline(drag.circuit, prev => moveOperation(prev, drag.op, preview.slot, wireDelta));
+      setDiagramSelection(null);
+    }
   };
 
-  const toggleCCNOTGate = (circuit: 'A' | 'B', pairIdx: number) => {
-    const setter = circuit === 'A' ? setSelectedGatesA : setSelectedGatesB;
-    setter(prev => ({ ...prev, ccnot: prev.ccnot.map((gate, idx) => idx === pairIdx ? !gate : gate) }));
+  const handleDiagramContextMenu = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const hit = diagramOperationAt(event);
+    if (!hit?.op) return;
+    event.preventDefault();
+    removeDiagramOperation(hit.circuit, hit.op);
+  };
+
+  const handleDiagramDragOver = (event: React.DragEvent<HTMLCanvasElement>) => {
+    const gate = paletteGateRef.current;
+    if (!gate) return;
+    const { x, y, bands } = diagramPointer(event);
+    const band = bandAt(bands, y);
+    if (!band) {
+      setDiagramHover(null);
+      return;
+    }
+    event.preventDefault();
+    setDiagramHover({ circuit: band.id, preview: { gate, qubits: droppedQubits(gate, wireAt(band, y)!, band.numQubits), slot: slotAt(band, x) } });
+  };
+
+  const handleDiagramDrop = (event: React.DragEvent<HTMLCanvasElement>) => {
+    event.preventDefault();
+    const preview = diagramHover?.preview;
+    paletteGateRef.current = null;
+    setDiagramHover(null);
+    if (diagramHover && preview?.qubits) placeDiagramGate(diagramHover.circuit, preview.gate, preview.qubits, preview.slot);
+  };
+
+  const describeOperation = (circuit: string, op: GateOperation) => {
+    const name = (q: number) => `${circuit}${q}`;
+    const gate = op.gate === 'CU' ? `C-${op.unitary ?? 'X'}` : op.gate;
+    const label = op.angle ? `${gate}(${op.angle})` : gate;
+    const condition = op.condition ? ` si c${op.condition.bit}=${op.condition.value}` : '';
+    if (op.gate === 'M') return `M ${name(op.targets[0])}→c${measurementBit(op)}${condition}`;
+    if (op.targets.length === 2) return `${label} ${name(op.targets[0])}↔${name(op.targets[1])}${condition}`;
+    if (op.controls.length > 0) return `${label} ${op.controls.map(name).join(',')}→${name(op.targets[0])}${condition}`;
+    return `${label} ${name(op.targets[0])}${condition}`;
+  };
+
+  const renderTimelineEditor = (config: CircuitConfig, k: number) => {
+    const circuit = config.id;
+    const accent = CIRCUIT_ACCENTS[k % CIRCUIT_ACCENTS.length];
+    const draft = draftFor(circuit);
+    const roles = gateQubitRoles(draft.gate);
+    const angleError = usesAngle(draft) ? expressionError(draft.angle) : null;
+    return (
+      <div key={circuit}>
+        <div className={`flex items-center justify-between mb-2 ${k > 0 ? 'mt-4' : ''}`}>
+          <h4 className={`font-medium ${accent.text}`}>Circuito {circuit}</h4>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              Qubits
+              <input
+                type="number"
+                min={QUBIT_LIMITS.min}
+                max={QUBIT_LIMITS.max}
+                value={config.numQubits}
+                onChange={(e) => setCircuitWidth(circuit, Math.min(QUBIT_LIMITS.max, Math.max(QUBIT_LIMITS.min, parseInt(e.target.value, 10) || QUBIT_LIMITS.min)))}
+                className="w-16 bg-gray-700 border border-gray-600 rounded px-2 py-1"
+              />
+            </label>
+            {k > 0 && (
+              <button onClick={() => removeCircuit(circuit)} className="text-gray-400 hover:text-white px-1" title="Eliminar circuito">&times;</button>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1 mb-2 text-sm">
+          <select
+            value={draft.gate}
+            onChange={(e) => updateGateDraft(circuit, { gate: e.target.value as GateName })}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+          >
+            {TIMELINE_GATES.map(gate => <option key={gate} value={gate}>{gate}</option>)}
+          </select>
+          {draft.gate === 'CU' && (
+            <select
+              value={draft.unitary}
+              onChange={(e) => updateGateDraft(circuit, { unitary: e.target.value as GateName })}
+              className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+              title="U"
+            >
+              {SINGLE_QUBIT_GATES.map(gate => <option key={gate} value={gate}>U={gate}</option>)}
+            </select>
+          )}
+          {roles.map((role, i) => (
+            <select
+              key={i}
+              value={draft.qubits[i]}
+              onChange={(e) => updateGateDraft(circuit, { qubits: draft.qubits.map((q, j) => j === i ? parseInt(e.target.value, 10) : q) })}
+              className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+              title={role === 'control' ? 'Control' : 'Objetivo'}
+            >
+              {Array.from({ length: config.numQubits }, (_, q) => (
+                <option key={q} value={q}>{role === 'control' ? 'c' : 't'}: {circuit}{q}</option>
+              ))}
+            </select>
+          ))}
+          <input
+            type="number"
+            min={0}
+            value={draft.column}
+            placeholder="t (auto)"
+            onChange={(e) => updateGateDraft(circuit, { column: e.target.value })}
+            className="w-20 bg-gray-700 border border-gray-600 rounded px-2 py-1"
+          />
+          {draft.gate === 'M' && (
+            <select
+              value={draft.bit}
+              onChange={(e) => updateGateDraft(circuit, { bit: parseInt(e.target.value, 10) })}
+              className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+              title="Bit clásico"
+            >
+              {Array.from({ length: config.numQubits }, (_, b) => <option key={b} value={b}>→ c{b}</option>)}
+            </select>
+          )}
+          <select
+            value={draft.condition ? `${draft.condition.bit}:${draft.condition.value}` : ''}
+            onChange={(e) => {
+              const [bit, value] = e.target.value.split(':').map(Number);
+              updateGateDraft(circuit, { condition: e.target.value ? { bit, value: value as 0 | 1 } : null });
+            }}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+            title="Condición clásica"
+          >
+            <option value="">siempre</option>
+            {Array.from({ length: config.numQubits }, (_, b) => [0, 1].map(value => (
+              <option key={`${b}:${value}`} value={`${b}:${value}`}>si c{b}={value}</option>
+            )))}
+          </select>
+          <button onClick={() => addGateOperation(circuit)} disabled={!!angleError} className={`rounded px-2 text-xs disabled:opacity-50 disabled:cursor-not-allowed ${accent.button}`}>
+            Añadir
+          </button>
+          {usesAngle(draft) && (
+            <input
+              type="text"
+              value={draft.angle}
+              placeholder="θ (ej. pi/3, 2*theta1)"
+              onChange={(e) => updateGateDraft(circuit, { angle: e.target.value })}
+              className={`w-full bg-gray-700 border rounded px-2 py-1 font-mono ${angleError ? 'border-red-500' : 'border-gray-600'}`}
+            />
+          )}
+          {angleError && <p className="w-full text-xs text-red-400">Ángulo inválido: {angleError}</p>}
+        </div>
+        <div className="space-y-1 max-h-48 overflow-y-auto text-xs font-mono">
+          {sortTimeline(config.timeline).map((op, idx) => (
+            <div key={idx} className="flex items-center gap-2 bg-gray-900 rounded px-2 py-1">
+              <span className="text-gray-500 w-10">t={op.column}</span>
+              <span className="flex-1">{describeOperation(circuit, op)}</span>
+              <button onClick={() => moveGateOperation(circuit, op, -1)} className="text-gray-400 hover:text-white px-1">←</button>
+              <button onClick={() => moveGateOperation(circuit, op, 1)} className="text-gray-400 hover:text-white px-1">→</button>
+              <button onClick={() => removeGateOperation(circuit, op)} className="text-gray-400 hover:text-white px-1">&times;</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const addNoiseChannel = () => {
+    const { scope, target, type, probability } = noiseDraft;
+    setNoiseModel(prev => ({
+      ...prev,
+      [scope]: { ...prev[scope], [target]: [...(prev[scope][target] || []), { type, probability }] }
+    }));
+  };
+
+  const removeNoiseChannel = (scope: 'qubit' | 'gate', target: string, channelIdx: number) => {
+    setNoiseModel(prev => {
+      const remaining = prev[scope][target].filter((_, idx) => idx !== channelIdx);
+      const { [target]: _removed, ...others } = prev[scope];
+      return { ...prev, [scope]: remaining.length > 0 ? { ...others, [target]: remaining } : others };
+    });
   };
 
   const handleGenerateSeed = () => {
     const state = {
-        selectedGatesA,
-        selectedGatesB,
-        circuitBEnabled,
+        circuits: circuitConfigs,
         interCircuitEntanglementEnabled,
+        interCircuitLinks: interCircuitEntanglement,
+        densityMatrixMode,
+        noiseModel,
+        parameterBindings,
+        rngSeed,
+        teleportationConfig,
+        wormholeConfig,
+        metric: wormholeMetric,
+        tunnelingMethod,
+        fragmentation,
     };
     try {
         const jsonString = JSON.stringify(state);
@@ -1364,17 +2343,77 @@ ${reconstructionData ? `
         setIsRunning(false);
 
         // Set the configuration from the seed
-        setSelectedGatesA(state.selectedGatesA);
-        setSelectedGatesB(state.selectedGatesB);
-        setCircuitBEnabled(state.circuitBEnabled);
-        setInterCircuitEntanglementEnabled(state.interCircuitEntanglementEnabled);
+        // Seeds saved before gate timelines existed carry the boolean gate grid instead,
+        // and those saved before multi-circuit support describe circuits A and B separately
+        const legacyCircuit = (id: 'A' | 'B', k: number): CircuitConfig => {
+          const numQubits = state[`numQubits${id}`] ?? QUBIT_LIMITS.default;
+          return {
+            ...createCircuitConfig(id, k, numQubits),
+            timeline: state[`gateTimeline${id}`] || timelineFromSelectedGates(state[`selectedGates${id}`], numQubits)
+          };
+        };
+        const circuits: CircuitConfig[] = state.circuits
+          ?? (state.circuitBEnabled ? [legacyCircuit('A', 0), legacyCircuit('B', 1)] : [legacyCircuit('A', 0)]);
+        const config = {
+          circuits,
+          // Seeds without a link map used the fixed CNOT chain A2-B2, B2-C2, ...
+          links: trimLinks(state.interCircuitLinks ?? defaultInterCircuitLinks(circuits), circuits),
+          interCircuit: !!state.interCircuitEntanglementEnabled,
+          densityMatrix: !!state.densityMatrixMode
+        };
+        const limitError = registerLimitError(config);
+        if (limitError) {
+          alert(limitError);
+          return;
+        }
+        const angleErrors = config.circuits.flatMap(circuit => timelineAngleErrors(circuit.timeline).map(error => `Circuito ${circuit.id}, ${error}`));
+        if (angleErrors.length > 0) {
+          alert(`Ángulos inválidos:\n${angleErrors.join('\n')}`);
+          return;
+        }
+        const loadedWormholeConfig: WormholeConfig = { ...WORMHOLE_CONFIG, ...state.wormholeConfig };
+        const wormholeErrors = Object.entries(wormholeConfigErrors(loadedWormholeConfig));
+        if (wormholeErrors.length > 0) {
+          alert(`Parámetros del wormhole inválidos:\n${wormholeErrors.map(([key, error]) => `${key}: ${error}`).join('\n')}`);
+          return;
+        }
+        // Seeds saved before metric families existed used the Ellis profile
+        const loadedMetric: MetricConfig = { ...METRIC_CONFIG, ...state.metric };
+        const metricErrors = Object.entries(metricConfigErrors(loadedMetric, loadedWormholeConfig.wormhole_distance));
+        if (metricErrors.length > 0) {
+          alert(`Métrica del wormhole inválida:\n${metricErrors.map(([key, error]) => `${key}: ${error}`).join('\n')}`);
+          return;
+        }
+        // Seeds saved before fragmentation was configurable used the default layout
+        const loadedFragmentation: FragmentationConfig = { ...FRAGMENTATION_CONFIG, ...state.fragmentation };
+        const fragmentationErrors = Object.entries(fragmentationConfigErrors(loadedFragmentation));
+        if (fragmentationErrors.length > 0) {
+          alert(`Fragmentación inválida:\n${fragmentationErrors.map(([key, error]) => `${key}: ${error}`).join('\n')}`);
+          return;
+        }
+        historyLabelRef.current = 'Cargar semilla';
+        setCircuitConfigs(config.circuits);
+        setInterCircuitEntanglementEnabled(config.interCircuit);
+        setInterCircuitEntanglement(config.links);
+        setDensityMatrixMode(config.densityMatrix);
+        setNoiseModel(state.noiseModel || createNoiseModel());
+        setParameterBindings(state.parameterBindings || {});
+        // Seeds saved before the RNG seed was stored cannot replay their random draws
+        setRngSeed(state.rngSeed ?? randomSeed());
+        setTeleportationConfig({ ...TELEPORTATION_CONFIG, ...state.teleportationConfig });
+        setWormholeConfig(loadedWormholeConfig);
+        setWormholeMetric(loadedMetric);
+        setTunnelingMethod(state.tunnelingMethod === 'wkb' ? 'wkb' : 'transfer_matrix');
+        setFragmentation(loadedFragmentation);
         
         // Reset the dynamic state to run the simulation from t=0
         setCurrentTime(0);
         setMetricsHistory([]);
         setReconstructionData(null);
-        setMeasurementResultsA([]);
-        setMeasurementResultsB([]);
+        setMetricComparison(null);
+        setTeleportationData(null);
+        setMeasurementResults([]);
+        setShotResults(null);
         setGeneratedSeed('');
         setAiAnalysis('');
 
@@ -1384,20 +2423,60 @@ ${reconstructionData ? `
     }
   };
 
+  const handleExportQasm = () => {
+    const links = interCircuitEntanglementEnabled ? interCircuitEntanglement : [];
+    setQasmText(exportQasm(circuitConfigs, links, resolveParameters(), qasmVersion));
+  };
+
+  const handleImportQasm = () => {
+    if (!qasmText.trim()) return;
+    try {
+      const { numQubits, timeline, warnings } = parseQasm(qasmText);
+      if (numQubits > QUBIT_LIMITS.max) {
+        alert(`El programa usa ${numQubits} qubits; un circuito admite como máximo ${QUBIT_LIMITS.max}.`);
+        return;
+      }
+      const target = circuitConfigs.some(config => config.id === qasmTarget) ? qasmTarget : circuitConfigs[0].id;
+      historyLabelRef.current = `Importar QASM en ${target}`;
+      updateRegisterConfig({
+        circuits: circuitConfigs.map(config => config.id === target ? { ...config, numQubits, timeline } : config)
+      });
+      if (warnings.length > 0) alert(`Instrucciones sin efecto en el simulador:\n${warnings.join('\n')}`);
+    } catch (error) {
+      console.error("Error importing QASM:", error);
+      alert(`QASM inválido: ${(error as Error).message}`);
+    }
+  };
+
+  const handleQasmFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    file.text().then(setQasmText);
+    event.target.value = '';
+  };
+
   const handleExport = () => {
     const results = {
         simulationTime: currentTime.toFixed(2),
+        rngSeed,
         gateConfiguration: {
-            circuitA: selectedGatesA,
-            circuitB: circuitBEnabled ? selectedGatesB : 'Disabled',
-            interCircuitEntanglement: interCircuitEntanglementEnabled,
-        },
-        lastMeasurement: {
-            circuitA: `|${measurementResultsA.join('')}⟩`,
-            circuitB: circuitBEnabled ? `|${measurementResultsB.join('')}⟩` : 'N/A',
+            circuits: circuitConfigs.map(config => ({ id: config.id, numQubits: config.numQubits, timeline: sortTimeline(config.timeline) })),
+            parameters: resolveParameters(),
+            interCircuitEntanglement: interCircuitEntanglementEnabled ? interCircuitEntanglement : 'Disabled',
         },
+        noiseModel: densityMatrixMode ? noiseModel : 'Disabled',
+        wormholeConfig,
+        metric: wormholeMetric,
+        tunnelingMethod,
+        fragmentation,
+        lastMeasurement: Object.fromEntries(quantumCircuits.map((circuit, k) =>
+            [circuit.circuitId, `|${(measurementResults[k] ?? []).join('')}⟩`])),
+        shotCounts: shotResults ?? 'Not run',
         coherenceHistory: metricsHistory,
+        entanglement: entanglementData,
         wormholeReconstruction: reconstructionData,
+        metricComparison: metricComparison?.map(({ family, reconstruction }) => ({ family, reconstruction })) ?? 'Not run',
+        wormholeTeleportation: teleportationData ?? 'Not run',
         aiAnalysis: aiAnalysis || 'No analysis performed.'
     };
     setExportData(JSON.stringify(results, null, 2));
@@ -1451,6 +2530,7 @@ ${reconstructionData ? `
                     className="w-full h-auto bg-black rounded-lg border border-gray-700"
                     onMouseMove={handleMouseMove}
                     onMouseLeave={handleMouseLeave}
+                    onClick={handleCanvasClick}
                 />
                 {tooltip && (
                     <div 
@@ -1474,11 +2554,34 @@ ${reconstructionData ? `
                <button onClick={handleClearGates} className="px-4 py-2 rounded-lg flex items-center gap-2 bg-gray-600 hover:bg-gray-500 transition-all">
                 <Eraser size={18} /> Limpiar Circuitos
               </button>
+              <button onClick={undo} disabled={history.index === 0} title="Deshacer (Ctrl+Z)" className="px-3 py-2 rounded-lg flex items-center bg-gray-600 hover:bg-gray-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                <Undo2 size={18} />
+              </button>
+              <button onClick={redo} disabled={history.index === history.entries.length - 1} title="Rehacer (Ctrl+Shift+Z)" className="px-3 py-2 rounded-lg flex items-center bg-gray-600 hover:bg-gray-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                <Redo2 size={18} />
+              </button>
               <button onClick={performMeasurement} className="px-4 py-2 rounded-lg flex items-center gap-2 bg-blue-600 hover:bg-blue-700 transition-all">
                 <Zap size={18} /> Medir
               </button>
+              <div className="flex rounded-lg overflow-hidden">
+                <input
+                  type="number"
+                  min={1}
+                  max={SHOT_LIMITS.max}
+                  value={shotCount}
+                  onChange={(e) => setShotCount(Math.min(SHOT_LIMITS.max, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  className="w-24 bg-gray-700 border border-gray-600 px-2"
+                  title="Número de disparos"
+                />
+                <button onClick={runShots} disabled={shotProgress !== null} className="px-4 py-2 flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                  <BarChart3 size={18} /> {shotProgress !== null ? `Disparos... ${shotProgress}` : 'Disparos'}
+                </button>
+              </div>
               <button onClick={handleReconstruction} className="px-4 py-2 rounded-lg flex items-center gap-2 bg-purple-600 hover:bg-purple-700 transition-all">
                 <Cpu size={18} /> Reconstruir
+              </button>
+              <button onClick={handleTeleportation} disabled={isTeleporting} className="px-4 py-2 rounded-lg flex items-center gap-2 bg-orange-600 hover:bg-orange-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                <Send size={18} /> {isTeleporting ? 'Teletransportando...' : 'Teletransportar'}
               </button>
                <button onClick={handleAiAnalysis} disabled={isAnalyzing} className="px-4 py-2 rounded-lg flex items-center gap-2 bg-pink-600 hover:bg-pink-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
                 <Sparkles size={18} /> {isAnalyzing ? 'Analizando...' : 'Analizar con IA'}
@@ -1488,6 +2591,22 @@ ${reconstructionData ? `
               </button>
             </div>
           </div>
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-3">Historial de Cambios</h3>
+            <ol className="max-h-48 overflow-y-auto space-y-1 text-sm">
+              {history.entries.map((entry, index) => (
+                <li key={`${index}-${entry.time}`}>
+                  <button
+                    onClick={() => restoreHistory(index)}
+                    className={`w-full text-left rounded px-2 py-1 flex gap-2 ${index === history.index ? 'bg-purple-700 text-white' : index > history.index ? 'text-gray-500 hover:bg-gray-700' : 'text-gray-300 hover:bg-gray-700'}`}
+                  >
+                    <span className="font-mono text-xs w-6 text-right self-center">{index}</span>
+                    <span className="flex-1 truncate">{entry.label}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
           <div className="bg-gray-800 rounded-lg p-4">
             <h3 className="text-lg font-semibold mb-4">Monitores de Coherencia del Sistema</h3>
             <div className="flex flex-col sm:flex-row gap-4 h-56">
@@ -1520,72 +2639,578 @@ ${reconstructionData ? `
                 </div>
             </div>
           </div>
+          <div ref={blochPanelRef} className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-1">Esferas de Bloch</h3>
+            <p className="text-xs text-gray-400 mb-4">Estado reducido de cada qubit; los estados mixtos se ven como vectores más cortos. Haz clic en un qubit del flujo o en una esfera para ampliarla y arrastra la esfera ampliada para girarla.</p>
+            <div className="flex flex-col sm:flex-row gap-4">
+              {focusedState && (
+                <div className="flex flex-col items-center gap-2">
+                  <BlochSphere
+                    vector={focusedState.bloch}
+                    label={focusedState.id}
+                    size={220}
+                    azimuth={blochView.azimuth}
+                    elevation={blochView.elevation}
+                    focused
+                    onRotate={(azimuth, elevation) => setBlochView({ azimuth, elevation })}
+                  />
+                  <div className="text-xs font-mono text-gray-300">
+                    x={focusedState.bloch.x.toFixed(3)} y={focusedState.bloch.y.toFixed(3)} z={focusedState.bloch.z.toFixed(3)}
+                  </div>
+                </div>
+              )}
+              <div className="flex-1 space-y-3">
+                {qubitStates.map((states, k) => (
+                  <div key={quantumCircuits[k]?.circuitId ?? k}>
+                    <h4 className="text-sm text-gray-400 mb-1">Circuito {quantumCircuits[k]?.circuitId}</h4>
+                    <div className="flex flex-wrap gap-1">
+                      {states.map(state => (
+                        <BlochSphere
+                          key={state.id}
+                          vector={state.bloch}
+                          label={state.id}
+                          size={64}
+                          azimuth={blochView.azimuth}
+                          elevation={blochView.elevation}
+                          focused={state.id === focusedQubit}
+                          onClick={() => setFocusedQubit(state.id === focusedQubit ? null : state.id)}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          {entanglementData && (
+            <div className="bg-gray-800 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-1">Medidas de Entrelazamiento</h3>
+              <p className="text-xs text-gray-400 mb-4">Entropía de von Neumann (bits) de cada qubit con el resto de su registro, y concurrencia entre pares de qubits.</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="h-56">
+                  <h4 className="text-sm text-center text-gray-400 mb-2">Entropía por qubit</h4>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={entanglementData.qubits} margin={{ top: 5, right: 10, left: -20, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+                      <XAxis dataKey="id" stroke="#A0AEC0" tick={{ fontSize: 9, fontFamily: 'monospace' }} interval={0} />
+                      <YAxis domain={[0, 1]} stroke="#A0AEC0" tick={{ fontSize: 10 }} />
+                      <Tooltip contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568' }} formatter={(value: number) => [value.toFixed(3), 'S (bits)']} />
+                      <Bar dataKey="entropy" fill="#B794F4" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div>
+                  <h4 className="text-sm text-center text-gray-400 mb-2">Concurrencia</h4>
+                  <div className="grid gap-px mx-auto max-w-xs" style={{ gridTemplateColumns: `repeat(${entanglementData.qubits.length}, minmax(0, 1fr))` }}>
+                    {entanglementData.concurrence.flatMap((row, i) => row.map((value, j) => (
+                      <div
+                        key={`${i}-${j}`}
+                        className="aspect-square"
+                        style={{ backgroundColor: i === j ? '#2D3748' : `rgba(237, 100, 166, ${value})` }}
+                        title={`C(${entanglementData.qubits[i].id}, ${entanglementData.qubits[j].id}) = ${value.toFixed(3)}`}
+                      />
+                    )))}
+                  </div>
+                </div>
+              </div>
+              <div className="mt-4 text-sm space-y-1">
+                {entanglementData.circuits.map(circuit => (
+                  <div key={circuit.id} className="flex justify-between">
+                    <span className="text-gray-400">S({circuit.id}):</span>
+                    <span className="font-mono text-purple-300">{formatMeasure(circuit.entropy)}</span>
+                  </div>
+                ))}
+                {entanglementData.pairs.map(pair => (
+                  <div key={`${pair.a}-${pair.b}`} className="flex justify-between">
+                    <span className="text-gray-400">{pair.a}↔{pair.b}: información mutua / negatividad</span>
+                    <span className="font-mono text-pink-300">{formatMeasure(pair.mutual_information)} / {formatMeasure(pair.negativity)}</span>
+                  </div>
+                ))}
+                {[...entanglementData.circuits.map(c => c.entropy), ...entanglementData.pairs.flatMap(p => [p.mutual_information, p.negativity])].includes(null) && (
+                  <p className="text-xs text-gray-500">— : subsistema de más de {ENTANGLEMENT_LIMITS.subsystem} qubits, demasiado grande para diagonalizar.</p>
+                )}
+              </div>
+            </div>
+          )}
+          {shotResults && (
+            <div className="bg-gray-800 rounded-lg p-4">
+              <h3 className="text-lg font-semibold mb-1">Histogramas de Disparos</h3>
+              <p className="text-xs text-gray-400 mb-4">
+                {shotResults.shots} disparos{shotResults.rerun ? ', cada uno re-ejecutando los circuitos desde t=0 por el control clásico' : ''}; se muestran como máximo los {HISTOGRAM_BARS} resultados más frecuentes.
+              </p>
+              {shotResults.shots < shotResults.requested && (
+                <p className="text-xs text-amber-300 -mt-3 mb-4">
+                  Se pidieron {shotResults.requested} disparos, pero al re-ejecutar los circuitos en cada uno se toman como máximo {SHOT_LIMITS.rerun}.
+                </p>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {[
+                  ...Object.entries(shotResults.circuits).map(([id, histogram]) => ({ key: id, title: `Circuito ${id}`, histogram })),
+                  ...(quantumCircuits.length > 1 ? [{ key: 'joint', title: `Conjunto ${Object.keys(shotResults.circuits).join('⊗')}`, histogram: shotResults.joint }] : [])
+                ].map(({ key, title, histogram }) => (
+                  <div key={key} className={`h-56 ${key === 'joint' ? 'sm:col-span-2' : ''}`}>
+                    <h4 className="text-sm text-center text-gray-400 mb-2">{title}</h4>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={histogramData(histogram)} margin={{ top: 5, right: 10, left: -10, bottom: 30 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+                        <XAxis dataKey="bitstring" stroke="#A0AEC0" tick={{ fontSize: 9, fontFamily: 'monospace' }} angle={-45} textAnchor="end" interval={0} />
+                        <YAxis stroke="#A0AEC0" tick={{ fontSize: 10 }} />
+                        <Tooltip contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568' }} formatter={(value: number) => [`${value} (${(value / shotResults.shots * 100).toFixed(1)}%)`, 'Cuentas']} />
+                        <Bar dataKey="count" fill={key === 'joint' ? '#ED64A6' : '#7F9CF5'} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
         
         {/* --- RIGHT COLUMN: CONFIGURATION & RESULTS --- */}
         <div className="lg:col-span-2 space-y-4">
            <div className="bg-gray-800 rounded-lg p-4">
             <h2 className="text-xl font-semibold mb-4">Diagrama de Circuitos</h2>
-            <canvas ref={circuitCanvasRef} width="600" height={circuitBEnabled ? 500 : 300} className="w-full h-auto bg-gray-800 rounded-lg border border-gray-700"></canvas>
+            <div className="flex flex-wrap gap-1 mb-3 text-xs">
+              {TIMELINE_GATES.map(gate => (
+                <button
+                  key={gate}
+                  draggable
+                  onDragStart={(e) => {
+                    paletteGateRef.current = gate;
+                    e.dataTransfer.setData('text/plain', gate);
+                    e.dataTransfer.effectAllowed = 'copy';
+                  }}
+                  onDragEnd={() => {
+                    paletteGateRef.current = null;
+                    setDiagramHover(null);
+                  }}
+                  onClick={() => setDiagramTool(prev => prev === gate ? null : gate)}
+                  className={`px-2 py-1 rounded font-mono cursor-grab ${diagramTool === gate ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                  title="Arrastra a un hilo, o haz clic para colocarla con el ratón"
+                >
+                  {gate}
+                </button>
+              ))}
+            </div>
+            <canvas
+              ref={circuitCanvasRef}
+              width="600"
+              height={circuitCanvasHeight}
+              onPointerDown={handleDiagramPointerDown}
+              onPointerMove={handleDiagramPointerMove}
+              onPointerUp={handleDiagramPointerUp}
+              onPointerLeave={() => { if (!diagramDragRef.current) setDiagramHover(null); }}
+              onContextMenu={handleDiagramContextMenu}
+              onDragOver={handleDiagramDragOver}
+              onDragLeave={() => setDiagramHover(null)}
+              onDrop={handleDiagramDrop}
+              className={`w-full h-auto bg-gray-800 rounded-lg border border-gray-700 ${diagramTool ? 'cursor-crosshair' : ''}`}
+            ></canvas>
+            <div className="flex items-center gap-2 mt-2 text-xs text-gray-400 min-h-[1.5rem]">
+              {diagramSelection ? (
+                <>
+                  <span className="flex-1 font-mono text-gray-200">{describeOperation(diagramSelection.circuit, diagramSelection.op)} (t={diagramSelection.op.column})</span>
+                  <span>Arrastra para mover · Supr o clic derecho para eliminar</span>
+                  <button onClick={() => removeDiagramOperation(diagramSelection.circuit, diagramSelection.op)} className="rounded px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white">Eliminar</button>
+                </>
+              ) : diagramTool ? (
+                <span>
+                  {diagramTool}: clic en un hilo para colocarla
+                  {gateQubitRoles(diagramTool).length > 1 && ', o arrastra desde el primer qubit hasta el último'} · Esc para terminar
+                </span>
+              ) : (
+                <span>Arrastra puertas de la paleta a los hilos, o una puerta del diagrama para moverla.</span>
+              )}
+            </div>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-4">Inspector de Circuito</h3>
+            <CircuitInspector
+              circuitIds={circuitConfigs.map(config => config.id)}
+              target={inspectedConfig?.id ?? ''}
+              onTargetChange={setInspectorTarget}
+              unitary={inspectorUnitary}
+              register={inspectedCircuit?.register ?? null}
+              qubitLabels={inspectedQubitLabels}
+            />
+          </div>
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-3">Plantillas de Circuito</h3>
+            <div className="space-y-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <select value={templateTarget} onChange={(e) => setTemplateTarget(e.target.value)} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+                  {circuitConfigs.map(config => <option key={config.id} value={config.id}>Circuito {config.id} ({config.numQubits} qubits)</option>)}
+                </select>
+                <label className="flex items-center gap-1 text-gray-400">
+                  Marcado
+                  <input
+                    type="number"
+                    min={0}
+                    max={(1 << templateConfig.numQubits) - 1}
+                    value={templateMarked}
+                    onChange={(e) => setTemplateOptions(prev => ({ ...prev, marked: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                    className="w-16 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                  />
+                  <span className="font-mono text-gray-300">|{templateMarked.toString(2).padStart(templateConfig.numQubits, '0')}⟩</span>
+                </label>
+                <label className="flex items-center gap-1 text-gray-400">
+                  Profundidad
+                  <input
+                    type="number"
+                    min={1}
+                    max={TEMPLATE_LIMITS.max_random_depth}
+                    value={templateOptions.depth}
+                    onChange={(e) => setTemplateOptions(prev => ({ ...prev, depth: Math.min(TEMPLATE_LIMITS.max_random_depth, Math.max(1, parseInt(e.target.value, 10) || 1)) }))}
+                    className="w-16 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                  />
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {CIRCUIT_TEMPLATES.map(template => {
+                  const error = templateWidthError(template, templateConfig.numQubits);
+                  return (
+                    <button
+                      key={template.id}
+                      onClick={() => handleLoadTemplate(template)}
+                      disabled={error !== null}
+                      title={error ?? template.description}
+                      className="text-left rounded-lg px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <div className="font-medium">{template.label}</div>
+                      <div className="text-xs text-gray-400">{template.description}</div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
           </div>
           <div className="bg-gray-800 rounded-lg p-4">
             <h3 className="text-lg font-semibold mb-4">Configuración de Circuito y Puertas</h3>
              <div className="space-y-3 mb-6">
-              <label className="flex items-center gap-3 cursor-pointer">
-                <input type="checkbox" checked={circuitBEnabled} onChange={(e) => setCircuitBEnabled(e.target.checked)} className="form-checkbox h-5 w-5 rounded bg-gray-700 border-gray-600 text-purple-600 focus:ring-purple-500" />
-                <span>Habilitar Circuito B</span>
-              </label>
-              <label className={`flex items-center gap-3 cursor-pointer transition-opacity ${!circuitBEnabled && 'opacity-50'}`}>
-                <input type="checkbox" disabled={!circuitBEnabled} checked={interCircuitEntanglementEnabled} onChange={(e) => setInterCircuitEntanglementEnabled(e.target.checked)} className="form-checkbox h-5 w-5 rounded bg-gray-700 border-gray-600 text-purple-600 focus:ring-purple-500" />
-                <span>Entrelazamiento Inter-Circuitos (A2-B2)</span>
+              <button
+                onClick={addCircuit}
+                disabled={circuitConfigs.length >= MAX_CIRCUITS}
+                className="w-full px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                Añadir circuito ({circuitConfigs.length}/{MAX_CIRCUITS})
+              </button>
+              <label className={`flex items-center gap-3 cursor-pointer transition-opacity ${circuitConfigs.length < 2 && 'opacity-50'}`}>
+                <input type="checkbox" disabled={circuitConfigs.length < 2} checked={interCircuitEntanglementEnabled} onChange={(e) => setInterCircuitEnabled(e.target.checked)} className="form-checkbox h-5 w-5 rounded bg-gray-700 border-gray-600 text-purple-600 focus:ring-purple-500" />
+                <span>Entrelazamiento Inter-Circuitos ({interCircuitEntanglement.length} enlaces)</span>
               </label>
-            </div>
-            <div className="space-y-4">
-              <div>
-                <h4 className="font-medium mb-2 text-purple-300">Circuito A</h4>
-                {Object.entries(GATE_TYPES).map(([gateType, label]) => (
-                  <div key={`A-${gateType}`} className="grid grid-cols-6 items-center gap-1 mb-1">
-                    <span className="col-span-1 text-sm">{label}</span>
-                    {selectedGatesA[gateType as keyof typeof GATE_TYPES].map((isActive, i) => (
-                      <button key={i} onClick={() => toggleGate('A', gateType, i)} className={`w-full h-6 rounded text-xs ${isActive ? 'bg-purple-600' : 'bg-gray-600 hover:bg-gray-500'}`}>A{i}</button>
-                    ))}
+              {interCircuitEntanglementEnabled && circuitConfigs.length > 1 && (
+                <div className="space-y-2 text-sm">
+                  <div className="flex flex-wrap gap-1">
+                    {(['from', 'to'] as const).map(end => {
+                      const qubitKey = end === 'from' ? 'fromQubit' : 'toQubit';
+                      const width = circuitConfigs.find(config => config.id === linkDraft[end])?.numQubits ?? 0;
+                      return (
+                        <React.Fragment key={end}>
+                          <select
+                            value={linkDraft[end]}
+                            onChange={(e) => setLinkDraft(prev => ({ ...prev, [end]: e.target.value, [qubitKey]: 0 }))}
+                            className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+                          >
+                            {circuitConfigs.map(config => <option key={config.id} value={config.id}>{config.id}</option>)}
+                          </select>
+                          <select
+                            value={linkDraft[qubitKey]}
+                            onChange={(e) => setLinkDraft(prev => ({ ...prev, [qubitKey]: parseInt(e.target.value, 10) }))}
+                            className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+                          >
+                            {Array.from({ length: width }, (_, q) => <option key={q} value={q}>{linkDraft[end]}{q}</option>)}
+                          </select>
+                          {end === 'from' && <span className="self-center text-gray-400">↔</span>}
+                        </React.Fragment>
+                      );
+                    })}
+                    <select
+                      value={linkDraft.operation}
+                      onChange={(e) => setLinkDraft(prev => ({ ...prev, operation: e.target.value as InterCircuitLinkOperation }))}
+                      className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+                    >
+                      {Object.entries(LINK_OPERATION_LABELS).map(([operation, label]) => (
+                        <option key={operation} value={operation}>{label}</option>
+                      ))}
+                    </select>
+                    <button onClick={addInterCircuitLink} className="rounded px-2 text-xs bg-fuchsia-600 hover:bg-fuchsia-700">
+                      Añadir enlace
+                    </button>
                   </div>
-                ))}
-                <h5 className="font-medium mt-3 text-sm text-sky-300">Puertas SWAP (A)</h5>
-                <div className="grid grid-cols-4 items-center gap-1 mt-1">
-                    {selectedGatesA.swap.map((isActive, i) => (
-                        <button key={i} onClick={() => toggleSwapGate('A', i)} className={`w-full h-6 rounded text-xs ${isActive ? 'bg-sky-500' : 'bg-gray-600 hover:bg-gray-500'}`}>{`${i}↔${i+1}`}</button>
+                  <div className="space-y-1 text-xs font-mono">
+                    {interCircuitEntanglement.map((link, idx) => (
+                      <div key={idx} className="flex items-center gap-2 bg-gray-900 rounded px-2 py-1">
+                        <span className="flex-1" style={{ color: `rgb(${LINK_COLORS[link.operation].join(', ')})` }}>{describeLink(link)}</span>
+                        <select
+                          value={link.operation}
+                          onChange={(e) => setInterCircuitLinkOperation(link, e.target.value as InterCircuitLinkOperation)}
+                          className="bg-gray-700 border border-gray-600 rounded px-1"
+                        >
+                          {Object.entries(LINK_OPERATION_LABELS).map(([operation, label]) => (
+                            <option key={operation} value={operation}>{label}</option>
+                          ))}
+                        </select>
+                        <button onClick={() => removeInterCircuitLink(link)} className="text-gray-400 hover:text-white px-1">&times;</button>
+                      </div>
                     ))}
+                  </div>
                 </div>
-                 <h5 className="font-medium mt-3 text-sm text-orange-400">Puertas CCNOT (Toffoli) (A)</h5>
-                <div className="grid grid-cols-3 items-center gap-1 mt-1">
-                    {selectedGatesA.ccnot.map((isActive, i) => (
-                        <button key={i} onClick={() => toggleCCNOTGate('A', i)} className={`w-full h-6 rounded text-xs ${isActive ? 'bg-orange-600' : 'bg-gray-600 hover:bg-gray-500'}`}>{`${i},${i+1}→${i+2}`}</button>
-                    ))}
+              )}
+            </div>
+            <div className="space-y-4">
+              {circuitConfigs.map((config, k) => renderTimelineEditor(config, k))}
+              {usedParameterNames().length > 0 && (
+                <div>
+                  <h5 className="font-medium mb-2 text-sm text-amber-300">Parámetros</h5>
+                  {usedParameterNames().map(name => {
+                    const value = parameterBindings[name] ?? 0;
+                    const setValue = (v: number) => setParameterBindings(prev => ({ ...prev, [name]: v }));
+                    return (
+                      <div key={name} className="flex items-center gap-2 mb-1 text-sm">
+                        <span className="font-mono w-20 truncate">{name}</span>
+                        <input type="range" min={-2 * Math.PI} max={2 * Math.PI} step={0.01} value={value} onChange={(e) => setValue(parseFloat(e.target.value))} className="flex-1" />
+                        <input type="number" step={0.01} value={value} onChange={(e) => setValue(parseFloat(e.target.value) || 0)} className="w-20 bg-gray-700 border border-gray-600 rounded px-2 py-1 font-mono" />
+                      </div>
+                    );
+                  })}
                 </div>
+              )}
+            </div>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-3">Ruido y Matriz de Densidad</h3>
+            <label className="flex items-center gap-3 cursor-pointer mb-4">
+              <input type="checkbox" checked={densityMatrixMode} onChange={(e) => updateRegisterConfig({ densityMatrix: e.target.checked })} className="form-checkbox h-5 w-5 rounded bg-gray-700 border-gray-600 text-purple-600 focus:ring-purple-500" />
+              <span>Simulación de estados mixtos (matriz de densidad)</span>
+            </label>
+            <div className={`space-y-3 transition-opacity ${!densityMatrixMode && 'opacity-50 pointer-events-none'}`}>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <select value={noiseDraft.type} onChange={(e) => setNoiseDraft(prev => ({ ...prev, type: e.target.value as NoiseChannelType }))} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+                  {Object.entries(NOISE_CHANNEL_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={noiseDraft.probability}
+                  onChange={(e) => setNoiseDraft(prev => ({ ...prev, probability: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) }))}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                />
+                <select value={noiseDraft.scope} onChange={(e) => {
+                  const scope = e.target.value as 'qubit' | 'gate';
+                  setNoiseDraft(prev => ({ ...prev, scope, target: scope === 'qubit' ? 'A0' : TIMELINE_GATES[0] }));
+                }} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+                  <option value="qubit">Por qubit (durante la evolución)</option>
+                  <option value="gate">Por puerta (tras aplicarla; en M, antes de medir)</option>
+                </select>
+                <select value={noiseDraft.target} onChange={(e) => setNoiseDraft(prev => ({ ...prev, target: e.target.value }))} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+                  {(noiseDraft.scope === 'qubit'
+                    ? circuitConfigs.flatMap(config => Array.from({ length: config.numQubits }, (_, i) => `${config.id}${i}`))
+                    : TIMELINE_GATES
+                  ).map(target => (
+                    <option key={target} value={target}>{target}</option>
+                  ))}
+                </select>
               </div>
-              {circuitBEnabled && (
-                <div>
-                  <h4 className="font-medium mb-2 text-green-300 mt-4">Circuito B</h4>
-                  {Object.entries(GATE_TYPES).map(([gateType, label]) => (
-                    <div key={`B-${gateType}`} className="grid grid-cols-6 items-center gap-1 mb-1">
-                      <span className="col-span-1 text-sm">{label}</span>
-                      {selectedGatesB[gateType as keyof typeof GATE_TYPES].map((isActive, i) => (
-                        <button key={i} onClick={() => toggleGate('B', gateType, i)} className={`w-full h-6 rounded text-xs ${isActive ? 'bg-green-600' : 'bg-gray-600 hover:bg-gray-500'}`}>B{i}</button>
-                      ))}
+              <button onClick={addNoiseChannel} className="w-full px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-sm">
+                Añadir canal de ruido
+              </button>
+              <div className="space-y-1 text-xs font-mono">
+                {(['qubit', 'gate'] as const).flatMap(scope => Object.entries<NoiseChannel[]>(noiseModel[scope]).flatMap(([target, channels]) =>
+                  channels.map((channel, idx) => (
+                    <div key={`${scope}-${target}-${idx}`} className="flex justify-between items-center bg-gray-900 rounded px-2 py-1">
+                      <span>{target}: {NOISE_CHANNEL_LABELS[channel.type]} (p={channel.probability}{scope === 'qubit' ? '/s' : ''})</span>
+                      <button onClick={() => removeNoiseChannel(scope, target, idx)} className="text-gray-400 hover:text-white">&times;</button>
                     </div>
+                  ))
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-3">Parámetros del Wormhole</h3>
+            <div className="space-y-2 text-sm">
+              {WORMHOLE_FIELDS.map(({ key, label, unit }) => (
+                <div key={key}>
+                  <label className="flex items-center gap-2">
+                    <span className="flex-1 text-gray-300">{label}{unit && <span className="text-gray-500"> ({unit})</span>}</span>
+                    <input
+                      type="text"
+                      value={wormholeDraft[key]}
+                      onChange={(e) => setWormholeDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                      className={`w-32 bg-gray-700 border rounded-lg px-2 py-1 font-mono ${wormholeDraftErrors[key] ? 'border-red-500' : 'border-gray-600'}`}
+                      title={`Rango: [${WORMHOLE_CONFIG_LIMITS[key].min}, ${WORMHOLE_CONFIG_LIMITS[key].max}]`}
+                    />
+                  </label>
+                  {wormholeDraftErrors[key] && <p className="text-xs text-red-400 text-right">{wormholeDraftErrors[key]}</p>}
+                </div>
+              ))}
+              <label className="flex items-center gap-2 pt-2 border-t border-gray-700">
+                <span className="flex-1 text-gray-300">Métrica</span>
+                <select
+                  value={metricDraft.family}
+                  onChange={(e) => updateMetricDraft({ family: e.target.value as MetricFamily })}
+                  className="w-48 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                >
+                  {(Object.keys(METRIC_FAMILIES) as MetricFamily[]).map(family => (
+                    <option key={family} value={family}>{METRIC_FAMILIES[family].label}</option>
                   ))}
-                  <h5 className="font-medium mt-3 text-sm text-sky-300">Puertas SWAP (B)</h5>
-                  <div className="grid grid-cols-4 items-center gap-1 mt-1">
-                    {selectedGatesB.swap.map((isActive, i) => (
-                        <button key={i} onClick={() => toggleSwapGate('B', i)} className={`w-full h-6 rounded text-xs ${isActive ? 'bg-sky-500' : 'bg-gray-600 hover:bg-gray-500'}`}>{`${i}↔${i+1}`}</button>
-                    ))}
-                  </div>
-                  <h5 className="font-medium mt-3 text-sm text-orange-400">Puertas CCNOT (Toffoli) (B)</h5>
-                  <div className="grid grid-cols-3 items-center gap-1 mt-1">
-                      {selectedGatesB.ccnot.map((isActive, i) => (
-                          <button key={i} onClick={() => toggleCCNOTGate('B', i)} className={`w-full h-6 rounded text-xs ${isActive ? 'bg-orange-600' : 'bg-gray-600 hover:bg-gray-500'}`}>{`${i},${i+1}→${i+2}`}</button>
+                </select>
+              </label>
+              <p className="text-xs text-gray-400">{METRIC_FAMILIES[metricDraft.family].description}</p>
+              {usesMetricExpressions(metricDraft.family) && ([
+                { key: 'shape', label: 'Forma b(r)' },
+                { key: 'redshift', label: 'Corrimiento Φ(r)' }
+              ] as const).map(({ key, label }) => (
+                <div key={key}>
+                  <label className="flex items-center gap-2">
+                    <span className="flex-1 text-gray-300">{label}</span>
+                    <input
+                      type="text"
+                      value={metricDraft[key]}
+                      onChange={(e) => updateMetricDraft({ [key]: e.target.value })}
+                      className={`w-48 bg-gray-700 border rounded-lg px-2 py-1 font-mono ${metricDraftErrors[key] ? 'border-red-500' : 'border-gray-600'}`}
+                      title="Expresión en r y b0 (radio de la garganta)"
+                    />
+                  </label>
+                  {metricDraftErrors[key] && <p className="text-xs text-red-400 text-right">{metricDraftErrors[key]}</p>}
+                </div>
+              ))}
+              {([
+                { key: 'compactness', label: 'Compacidad r_s/a', family: 'thin_shell', max: METRIC_LIMITS.max_compactness },
+                { key: 'spin', label: 'Rotación J/b0²', family: 'teo', max: METRIC_LIMITS.max_spin }
+              ] as const).filter(({ family }) => metricDraft.family === family).map(({ key, label, max }) => (
+                <div key={key}>
+                  <label className="flex items-center gap-2">
+                    <span className="flex-1 text-gray-300">{label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={max}
+                      step={0.01}
+                      value={Number.isFinite(metricDraft[key]) ? metricDraft[key] : ''}
+                      onChange={(e) => updateMetricDraft({ [key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+                      className={`w-32 bg-gray-700 border rounded-lg px-2 py-1 font-mono ${metricDraftErrors[key] ? 'border-red-500' : 'border-gray-600'}`}
+                    />
+                  </label>
+                  {metricDraftErrors[key] && <p className="text-xs text-red-400 text-right">{metricDraftErrors[key]}</p>}
+                </div>
+              ))}
+              <label className="flex items-center gap-2 pt-2 border-t border-gray-700">
+                <span className="flex-1 text-gray-300">Muestreo de fragmentos</span>
+                <select
+                  value={fragmentationDraft.sampling}
+                  onChange={(e) => updateFragmentationDraft({ sampling: e.target.value as FragmentSampling })}
+                  className="w-48 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                >
+                  {(Object.keys(FRAGMENT_SAMPLING_LABELS) as FragmentSampling[]).map(sampling => (
+                    <option key={sampling} value={sampling}>{FRAGMENT_SAMPLING_LABELS[sampling]}</option>
+                  ))}
+                </select>
+              </label>
+              {([
+                { key: 'num_fragments', label: 'Fragmentos', min: FRAGMENTATION_LIMITS.min_fragments, max: FRAGMENTATION_LIMITS.max_fragments, step: 1 },
+                { key: 'grid_width', label: 'Columnas de la cuadrícula', min: 1, max: fragmentationDraft.num_fragments, step: 1 },
+                { key: 'num_sectors', label: 'Sectores', min: 1, max: fragmentationDraft.num_fragments, step: 1 },
+                { key: 'spread', label: 'Dispersión σ (fracción de la garganta)', min: FRAGMENTATION_LIMITS.min_spread, max: FRAGMENTATION_LIMITS.max_spread, step: 0.01 }
+              ] as const).filter(({ key }) => key !== 'spread' || fragmentationDraft.sampling === 'gaussian').map(({ key, label, min, max, step }) => (
+                <div key={key}>
+                  <label className="flex items-center gap-2">
+                    <span className="flex-1 text-gray-300">{label}</span>
+                    <input
+                      type="number"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={Number.isFinite(fragmentationDraft[key]) ? fragmentationDraft[key] : ''}
+                      onChange={(e) => updateFragmentationDraft({ [key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+                      className={`w-32 bg-gray-700 border rounded-lg px-2 py-1 font-mono ${fragmentationDraftErrors[key] ? 'border-red-500' : 'border-gray-600'}`}
+                    />
+                  </label>
+                  {fragmentationDraftErrors[key] && <p className="text-xs text-red-400 text-right">{fragmentationDraftErrors[key]}</p>}
+                </div>
+              ))}
+              <div className="flex gap-2 pt-1">
+                <button
+                  onClick={applyWormholeConfig}
+                  disabled={!wormholeDraftValid}
+                  className="flex-grow px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Aplicar
+                </button>
+                <button
+                  onClick={() => {
+                    setWormholeDraft(wormholeDraftFor(WORMHOLE_CONFIG));
+                    setMetricDraft(METRIC_CONFIG);
+                    setFragmentationDraft(FRAGMENTATION_CONFIG);
+                  }}
+                  className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500"
+                >
+                  Valores por defecto
+                </button>
+              </div>
+              <label className="flex items-center gap-2 pt-2 border-t border-gray-700">
+                <span className="flex-1 text-gray-300">Tunelización</span>
+                <select
+                  value={tunnelingMethod}
+                  onChange={(e) => updateTunnelingMethod(e.target.value as TunnelingMethod)}
+                  className="w-48 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                >
+                  {(Object.keys(TUNNELING_METHOD_LABELS) as TunnelingMethod[]).map(method => (
+                    <option key={method} value={method}>{TUNNELING_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={handleCompareMetrics}
+                disabled={quantumCircuits.length === 0}
+                className="w-full px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Fragmenta y reconstruye los circuitos actuales en cada familia de métricas con los parámetros aplicados"
+              >
+                Comparar familias de métricas
+              </button>
+              {metricComparison && (
+                <div className="space-y-2 pt-1">
+                  <table className="w-full text-xs font-mono">
+                    <thead>
+                      <tr className="text-gray-400">
+                        <th className="text-left font-normal">Métrica</th>
+                        <th className="text-right font-normal">Eficiencia</th>
+                        <th className="text-right font-normal">Tunelización</th>
+                        <th className="text-right font-normal">Fidelidad media</th>
+                        <th className="text-right font-normal">Resonancias</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {metricComparison.map(({ family, reconstruction }) => (
+                        <tr key={family} className={family === wormholeMetric.family ? 'text-white' : 'text-gray-300'}>
+                          <td style={{ color: METRIC_COLORS[family] }}>{METRIC_FAMILIES[family].label}</td>
+                          <td className="text-right">{(reconstruction.wormhole_efficiency * 100).toFixed(2)}%</td>
+                          <td className="text-right">{(reconstruction.average_tunneling * 100).toFixed(2)}%</td>
+                          <td className="text-right">
+                            {(reconstruction.circuits.reduce((sum, circuit) => sum + circuit.wormhole_fidelity, 0) / Math.max(1, reconstruction.circuits.length) * 100).toFixed(2)}%
+                          </td>
+                          <td className="text-right">{reconstruction.tunneling_spectrum.resonances.length}</td>
+                        </tr>
                       ))}
+                    </tbody>
+                  </table>
+                  <div className="h-40">
+                    <h4 className="text-xs text-center text-gray-400 mb-1">Perfil de la garganta r/b0 frente a z/b0</h4>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={metricProfileData(metricComparison, wormholeConfig.wormhole_distance)} margin={{ top: 5, right: 10, left: -20, bottom: 15 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+                        <XAxis dataKey="z" type="number" domain={['dataMin', 'dataMax']} stroke="#A0AEC0" tick={{ fontSize: 10 }} tickFormatter={(v: number) => v.toFixed(0)} />
+                        <YAxis stroke="#A0AEC0" tick={{ fontSize: 10 }} />
+                        <Tooltip contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568' }} formatter={(value: number, family: string) => [value.toFixed(3), METRIC_FAMILIES[family as MetricFamily].label]} labelFormatter={(v: number) => `z/b0 = ${v.toFixed(2)}`} />
+                        {metricComparison.map(({ family }) => (
+                          <Line key={family} type="monotone" dataKey={family} stroke={METRIC_COLORS[family]} dot={false} strokeWidth={2} />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
                   </div>
                 </div>
               )}
@@ -1606,6 +3231,20 @@ ${reconstructionData ? `
                         <Upload size={16} /> Cargar
                     </button>
                 </div>
+                <div className="flex gap-2 items-center text-sm">
+                    <label htmlFor="rng-seed" className="text-gray-400 whitespace-nowrap">Semilla aleatoria</label>
+                    <input
+                        id="rng-seed"
+                        type="number"
+                        min={0}
+                        value={rngSeed}
+                        onChange={(e) => setRngSeed((parseInt(e.target.value, 10) || 0) >>> 0)}
+                        className="flex-grow bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 font-mono"
+                    />
+                    <button onClick={() => setRngSeed(randomSeed())} className="px-3 py-2 rounded-lg bg-gray-600 hover:bg-gray-500" title="Nueva semilla aleatoria">
+                        <RotateCcw size={16} />
+                    </button>
+                </div>
                 <button onClick={handleGenerateSeed} className="w-full px-4 py-2 rounded-lg flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-sm">
                     <Save size={16} /> Guardar Semilla
                 </button>
@@ -1620,6 +3259,39 @@ ${reconstructionData ? `
             </div>
           </div>
 
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-3">OpenQASM</h3>
+            <div className="space-y-3 text-sm">
+                <textarea
+                    value={qasmText}
+                    onChange={(e) => setQasmText(e.target.value)}
+                    placeholder={'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\nh q[0];\ncx q[0], q[1];'}
+                    className="w-full h-40 bg-gray-900 text-gray-300 font-mono text-xs p-2 rounded-md border border-gray-700"
+                />
+                <div className="flex gap-2">
+                    <select value={qasmVersion} onChange={(e) => setQasmVersion(Number(e.target.value) as QasmVersion)} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+                        <option value={2}>OpenQASM 2.0</option>
+                        <option value={3}>OpenQASM 3.0</option>
+                    </select>
+                    <button onClick={handleExportQasm} className="flex-grow px-4 py-2 rounded-lg flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700">
+                        <Download size={16} /> Exportar circuitos
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    <select value={qasmTarget} onChange={(e) => setQasmTarget(e.target.value)} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1">
+                        {circuitConfigs.map(config => <option key={config.id} value={config.id}>Circuito {config.id}</option>)}
+                    </select>
+                    <button onClick={handleImportQasm} className="flex-grow px-4 py-2 rounded-lg flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700">
+                        <Upload size={16} /> Importar
+                    </button>
+                    <label className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 cursor-pointer">
+                        Abrir .qasm
+                        <input type="file" accept=".qasm,.txt" onChange={handleQasmFile} className="hidden" />
+                    </label>
+                </div>
+            </div>
+          </div>
+
           {(reconstructionData) && (
             <div className="bg-gray-800 rounded-lg p-4">
               <h3 className="text-lg font-semibold mb-3">Resultados de Reconstrucción</h3>
@@ -1627,25 +3299,145 @@ ${reconstructionData ? `
                 <div className="flex justify-between">
                   <span className="text-gray-400">Eficiencia del Wormhole:</span>
                   <span className="font-mono text-purple-300">{(reconstructionData.wormhole_efficiency * 100).toFixed(2)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Fragmentación:</span>
+                  <span className="font-mono text-gray-300">
+                    {reconstructionData.fragmentation.num_fragments} ({FRAGMENT_SAMPLING_LABELS[reconstructionData.fragmentation.sampling]}), {reconstructionData.fragmentation.grid_width}×{Math.ceil(reconstructionData.fragmentation.num_fragments / reconstructionData.fragmentation.grid_width)}, {reconstructionData.fragmentation.num_sectors} sectores
+                  </span>
                 </div>
                  <div className="flex justify-between">
                   <span className="text-gray-400">Tunelización Promedio:</span>
                   <span className="font-mono text-green-300">{(reconstructionData.average_tunneling * 100).toFixed(2)}%</span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-400">Fidelidad Circuito A:</span>
-                  <span className="font-mono text-purple-300">{(reconstructionData.circuit_A.wormhole_fidelity * 100).toFixed(2)}%</span>
-                </div>
-                {circuitBEnabled && (
-                  <div className="flex justify-between">
-                    <span className="text-gray-400">Fidelidad Circuito B:</span>
-                    <span className="font-mono text-purple-300">{(reconstructionData.circuit_B.wormhole_fidelity * 100).toFixed(2)}%</span>
+                {reconstructionData.circuits.map(circuit => (
+                  <div key={circuit.id} className="flex justify-between">
+                    <span className="text-gray-400">Fidelidad Circuito {circuit.id}:</span>
+                    <span className="font-mono text-purple-300">{(circuit.wormhole_fidelity * 100).toFixed(2)}%</span>
                   </div>
-                )}
+                ))}
+                <div className="h-48 pt-2">
+                  <h4 className="text-xs text-center text-gray-400 mb-1">
+                    Transmisión T(E) ({TUNNELING_METHOD_LABELS[reconstructionData.tunneling_spectrum.method]}), E en ħ²/(2m b0²)
+                  </h4>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={reconstructionData.tunneling_spectrum.points} margin={{ top: 5, right: 10, left: -20, bottom: 15 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+                      <XAxis dataKey="energy" type="number" domain={['dataMin', 'dataMax']} stroke="#A0AEC0" tick={{ fontSize: 10 }} tickFormatter={(v: number) => v.toFixed(1)} />
+                      <YAxis domain={[0, 1]} stroke="#A0AEC0" tick={{ fontSize: 10 }} />
+                      <Tooltip contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568' }} formatter={(value: number) => [value.toFixed(4), 'T']} labelFormatter={(v: number) => `E = ${v.toFixed(3)}`} />
+                      <ReferenceLine x={reconstructionData.tunneling_spectrum.barrier_height} stroke="#FC8181" strokeDasharray="4 4" />
+                      {reconstructionData.tunneling_spectrum.resonances.map(resonance => (
+                        <ReferenceLine key={resonance.energy} x={resonance.energy} stroke="#68D391" strokeDasharray="2 2" />
+                      ))}
+                      <Line type="monotone" dataKey="transmission" stroke="#63B3ED" dot={false} strokeWidth={2} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-gray-500 pt-3">
+                  Barrera de {reconstructionData.tunneling_spectrum.barrier_height.toFixed(3)} (línea roja).
+                  {reconstructionData.tunneling_spectrum.resonances.length > 0
+                    ? ` Resonancias (verde): ${reconstructionData.tunneling_spectrum.resonances.map(r => `E=${r.energy.toFixed(3)}, T=${r.transmission.toFixed(3)}, Γ=${r.width.toFixed(4)}`).join('; ')}.`
+                    : ' Sin resonancias en el rango.'}
+                </p>
+                <div className="pt-3 space-y-1 text-xs">
+                  <h4 className="text-gray-400">
+                    Espectro de Dirac: brecha de masa {reconstructionData.dirac_spectrum.mass_gap.toFixed(3)} ħc/b0, t = {reconstructionData.dirac_spectrum.evolution_time.toFixed(3)} b0/c
+                  </h4>
+                  {reconstructionData.dirac_spectrum.bound_states.length > 0 ? (
+                    reconstructionData.dirac_spectrum.bound_states.map((state, k) => (
+                      <div key={k} className="flex justify-between font-mono">
+                        <span className={state.zero_mode ? 'text-yellow-300' : 'text-gray-300'}>
+                          E = {state.energy.toExponential(3)}{state.zero_mode ? ' (modo cero)' : ''}
+                        </span>
+                        <span className="text-gray-400">χ = {state.chirality.toFixed(3)}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-gray-500">Sin estados ligados dentro de la brecha.</p>
+                  )}
+                </div>
               </div>
             </div>
           )}
 
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-1">Teletransporte por Wormhole</h3>
+            <p className="text-xs text-gray-400 mb-3">
+              Dos copias L y R de un sistema con acoplamientos aleatorios todos-con-todos (tipo SYK) parten entrelazadas.
+              El mensaje entra en L en -t, se codifica, el acoplamiento e^(iμV) entre L y R lo transfiere y R lo decodifica en +t.
+            </p>
+            <div className="grid grid-cols-3 gap-2 text-sm mb-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Qubits por lado</span>
+                <input
+                  type="number"
+                  min={TELEPORTATION_QUBIT_LIMITS.min}
+                  max={TELEPORTATION_QUBIT_LIMITS.max}
+                  value={teleportationConfig.numQubits}
+                  onChange={(e) => updateTeleportationConfig({ numQubits: Math.min(TELEPORTATION_QUBIT_LIMITS.max, Math.max(TELEPORTATION_QUBIT_LIMITS.min, parseInt(e.target.value, 10) || TELEPORTATION_QUBIT_LIMITS.min)) })}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Acoplamiento μ</span>
+                <input
+                  type="number"
+                  step={0.1}
+                  value={+teleportationConfig.coupling.toFixed(3)}
+                  onChange={(e) => updateTeleportationConfig({ coupling: parseFloat(e.target.value) || 0 })}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Tiempo t</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={teleportationConfig.time}
+                  onChange={(e) => updateTeleportationConfig({ time: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1"
+                />
+              </label>
+            </div>
+            {teleportationData ? (
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Fidelidad del mensaje:</span>
+                  <span className="font-mono text-orange-300">{(teleportationData.fidelity * 100).toFixed(2)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Sin acoplamiento (μ=0):</span>
+                  <span className="font-mono text-gray-300">{(teleportationData.baseline * 100).toFixed(2)}%</span>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-2">
+                  {[
+                    { key: 'coupling', title: `Fidelidad vs μ (t=${teleportationData.config.time})`, data: teleportationData.coupling_sweep },
+                    { key: 'time', title: `Fidelidad vs t (μ=${teleportationData.config.coupling.toFixed(2)})`, data: teleportationData.time_sweep }
+                  ].map(({ key, title, data }) => (
+                    <div key={key} className="h-48">
+                      <h4 className="text-xs text-center text-gray-400 mb-1">{title}</h4>
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={data} margin={{ top: 5, right: 10, left: -20, bottom: 15 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+                          <XAxis dataKey={key} type="number" domain={['dataMin', 'dataMax']} stroke="#A0AEC0" tick={{ fontSize: 10 }} tickFormatter={(v: number) => v.toFixed(1)} />
+                          <YAxis domain={[0, 1]} stroke="#A0AEC0" tick={{ fontSize: 10 }} />
+                          <Tooltip contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568' }} formatter={(value: number) => [`${(value * 100).toFixed(1)}%`, 'Fidelidad']} labelFormatter={(v: number) => `${key === 'coupling' ? 'μ' : 't'} = ${v.toFixed(2)}`} />
+                          <ReferenceLine y={0.25} stroke="#718096" strokeDasharray="4 4" />
+                          <Line type="monotone" dataKey="fidelity" stroke="#F6AD55" dot={false} strokeWidth={2} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">La línea discontinua (25%) es la fidelidad de un mensaje que no atraviesa el wormhole.</p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Pulsa "Teletransportar" para ejecutar el protocolo.</p>
+            )}
+          </div>
+
           {(isAnalyzing || aiAnalysis) && (
             <div className="bg-gray-800 rounded-lg p-4">
                 <h3 className="text-lg font-semibold mb-3 flex items-center gap-2"><Sparkles size={18} className="text-pink-400" />Análisis de IA</h3>
@@ -1,3 +1,5 @@
+import type { FragmentationConfig, MetricConfig, TeleportationConfig, WormholeConfig } from './types';
+
 
 // Physical constants (simulated)
 export const PHYSICAL_CONSTANTS = {
@@ -11,11 +13,143 @@ export const PHYSICAL_CONSTANTS = {
 };
 
 // Wormhole configuration
-export const WORMHOLE_CONFIG = {
+export const WORMHOLE_CONFIG: WormholeConfig = {
   majorana_mass: 2.5e-25,      // kg - neutrino scale
   dark_energy: -1.2e-10,       // J - dark energy density
   wormhole_distance: 1.6e-35,  // m - Planck length
   teleport_time: 5.4e-44,      // s - Planck time
   num_points: 1000,            // simulation points
-  dimension: 4                 // spacetime dimensions
+  dimension: 4,                // spacetime dimensions
+  curvature_coupling: 1        // ξ, Majorana mass m + ξR
+};
+
+// Accepted range of each wormhole parameter; num_points and dimension are integers
+export const WORMHOLE_CONFIG_LIMITS: Record<keyof WormholeConfig, { min: number; max: number }> = {
+  majorana_mass: { min: 0, max: 1e-20 },
+  dark_energy: { min: -1e-6, max: 0 },
+  wormhole_distance: { min: 1e-36, max: 1e-28 },
+  teleport_time: { min: 1e-45, max: 1e-40 },
+  num_points: { min: 16, max: 10000 },
+  dimension: { min: 2, max: 11 },
+  curvature_coupling: { min: -10, max: 10 }
+};
+
+// Wormhole metric; the shape and redshift expressions are the Morris–Thorne and Teo profiles
+export const METRIC_CONFIG: MetricConfig = {
+  family: 'ellis',
+  shape: 'b0*(b0/r)^0.5',      // b(r), equals b0 at the throat
+  redshift: '-b0/(2*r)',       // Φ(r), finite everywhere so there is no horizon
+  compactness: 0.5,            // thin shell r_s/a
+  spin: 0.2                    // Teo J/b0²
+};
+
+// Accepted metric parameters: a thin shell at or inside its horizon, and frames dragged at
+// the speed of light at the throat (ωr = 2J/b0² = 1), are excluded
+export const METRIC_LIMITS = {
+  max_compactness: 0.99,
+  max_spin: 0.49
+};
+
+// Transmission curves: energies sampled, the range they cover (at least `min_energy`, and
+// `barrier_multiple` times the barrier height), and the smallest prominence counted as a resonance
+export const TUNNELING_LIMITS = {
+  energy_points: 240,
+  min_energy: 6,
+  barrier_multiple: 2,
+  resonance_prominence: 0.02
+};
+
+// Fragments the circuits are split into: 1024 along the throat on a 32-wide grid of 4 sectors
+export const FRAGMENTATION_CONFIG: FragmentationConfig = {
+  num_fragments: 1024,
+  grid_width: 32,
+  num_sectors: 4,
+  sampling: 'uniform',
+  spread: 0.15,                // Gaussian σ, fraction of the throat length
+  seed: 1                      // random and Gaussian schemes; the app uses its RNG seed
+};
+
+// Accepted fragment counts (every fragment carries a copy of every qubit) and Gaussian spreads
+export const FRAGMENTATION_LIMITS = {
+  min_fragments: 16,
+  max_fragments: 8192,
+  min_spread: 0.01,
+  max_spread: 1
+};
+
+// Dirac solver: Crank–Nicolson time step (b0/c) and most steps taken, most bound states kept
+// (those nearest zero energy), and the energy (ħc/b0) below which a bound state is a zero mode
+export const DIRAC_LIMITS = {
+  time_step: 0.01,
+  max_steps: 2000,
+  bound_states: 16,
+  zero_mode_energy: 1e-2
+};
+
+// Most circuits a system can hold (A, B, C, ...)
+export const MAX_CIRCUITS = 6;
+
+// Circuit width limits
+export const QUBIT_LIMITS = {
+  min: 1,
+  max: 16,                     // qubits per circuit
+  default: 5,
+  statevector: 20,             // widest register, joint A+B included, simulated as a statevector
+  density_matrix: 10           // widest register simulated as a density matrix (4^n entries)
+};
+
+// Shots per sampling run
+export const SHOT_LIMITS = {
+  default: 1024,
+  max: 100000,
+  rerun: 2000,                 // most shots when every shot re-runs the circuits (classical control)
+  chunk_ms: 50                 // re-runs done before yielding to the page
+};
+
+// Traversable-wormhole teleportation protocol
+export const TELEPORTATION_CONFIG: TeleportationConfig = {
+  numQubits: 4,                // qubits per side (L and R); the register holds 2n + 2
+  coupling: Math.PI / 2,       // μ, strength of the L–R coupling
+  time: 2,                     // t, the message enters at -t and is read out at +t
+  timeStep: 0.1,               // Trotter step
+  seed: 7,                     // random couplings of the scrambling Hamiltonian
+  maxCoupling: Math.PI,        // coupling sweep covers [-max, max]
+  maxTime: 4,                  // time sweep covers [0, max]
+  sweepPoints: 17
+};
+
+// Qubits per side the protocol accepts
+export const TELEPORTATION_QUBIT_LIMITS = {
+  min: 2,
+  max: 5                       // 12 qubits; each sweep point is a full run of the protocol
+};
+
+// Entanglement measures diagonalize reduced density matrices of at most `subsystem` qubits;
+// pairwise concurrence is skipped on registers wider than `pairwise_register`
+export const ENTANGLEMENT_LIMITS = {
+  subsystem: 6,
+  pairwise_register: 14
+};
+
+// Circuit inspector: widest circuit whose unitary is built, widest register whose full
+// matrix is drawn, and most basis-state rows listed
+export const INSPECTOR_LIMITS = {
+  unitary_qubits: 6,
+  matrix_qubits: 6,
+  rows: 256
+};
+
+// Circuit templates: widest Grover search (its n-controlled Z grows as 2^n gates) and the
+// random circuit's default and largest depth
+export const TEMPLATE_LIMITS = {
+  grover_qubits: 5,
+  random_depth: 4,
+  max_random_depth: 40
+};
+
+// Undo/redo: entries kept, and the window within which repeated edits of the same kind
+// (a dragged slider, a typed number) merge into one entry
+export const HISTORY_LIMITS = {
+  entries: 100,
+  coalesce_ms: 1000
 };
@@ -0,0 +1,151 @@
+import { gateQubitRoles, operationQubits, sortTimeline } from './timeline';
+import type { CircuitConfig, GateName, GateOperation } from '../types';
+
+// Geometry of the circuit diagram, shared by the renderer and the canvas editor's hit tests
+
+type DiagramCircuit = Pick<CircuitConfig, 'id' | 'numQubits' | 'timeline'>;
+
+const FIRST_COLUMN_X = 60;
+const GATE_WIDTH = 35;
+
+// One circuit's horizontal band
+export interface CircuitBand {
+  id: string;
+  numQubits: number;
+  // Top of the band; wire q sits (q + 1) wire spacings below it
+  top: number;
+  wireSpacing: number;
+  // Occupied time columns in order, and where each is drawn
+  columns: number[];
+  columnX: Map<number, number>;
+  columnSpacing: number;
+  boxWidth: number;
+  gateHeight: number;
+  // Centre of the final measurement boxes
+  measureX: number;
+}
+
+// Where a placed gate goes: into `column`, or into a fresh column opened at `column` by pushing
+// everything from it onwards one step later. `x` is where the slot is drawn.
+export interface DiagramSlot {
+  column: number;
+  insert: boolean;
+  x: number;
+}
+
+// Each circuit gets an equal band, leaving room for its title when there are several
+export const circuitDiagramLayout = (circuits: DiagramCircuit[], width: number, height: number): CircuitBand[] => {
+  const bandHeight = (height - 40) / Math.max(1, circuits.length);
+  const wireHeight = circuits.length > 1 ? bandHeight - 30 : bandHeight;
+  const measureX = width - 80;
+  return circuits.map((circuit, k) => {
+    const wireSpacing = wireHeight / (circuit.numQubits + 1);
+    // One x position per occupied time column, squeezed to fit before the measurement boxes
+    const columns = [...new Set(circuit.timeline.map(op => op.column))].sort((a, b) => a - b);
+    const columnSpacing = columns.length > 1 ? Math.min(45, (measureX - 45 - FIRST_COLUMN_X) / (columns.length - 1)) : 45;
+    return {
+      id: circuit.id,
+      numQubits: circuit.numQubits,
+      top: 40 + k * bandHeight,
+      wireSpacing,
+      columns,
+      columnX: new Map(columns.map((column, i) => [column, FIRST_COLUMN_X + i * columnSpacing])),
+      columnSpacing,
+      boxWidth: Math.min(GATE_WIDTH, columnSpacing - 4),
+      gateHeight: Math.min(25, wireSpacing - 4),
+      measureX
+    };
+  });
+};
+
+export const wireY = (band: CircuitBand, qubit: number) => band.top + band.wireSpacing * (qubit + 1);
+
+// Wire within half a spacing of y, or null
+export const wireAt = (band: CircuitBand, y: number) => {
+  const qubit = Math.round((y - band.top) / band.wireSpacing) - 1;
+  return qubit >= 0 && qubit < band.numQubits ? qubit : null;
+};
+
+export const bandAt = (bands: CircuitBand[], y: number) => bands.find(band => wireAt(band, y) !== null) ?? null;
+
+// Box an operation covers: its column and every wire between its outermost qubits
+export const operationBounds = (band: CircuitBand, op: GateOperation) => {
+  const ys = operationQubits(op).map(q => wireY(band, q));
+  const x = band.columnX.get(op.column) ?? FIRST_COLUMN_X;
+  return {
+    left: x - band.boxWidth / 2,
+    right: x + band.boxWidth / 2,
+    top: Math.min(...ys) - band.gateHeight / 2,
+    bottom: Math.max(...ys) + band.gateHeight / 2
+  };
+};
+
+// Operation drawn under (x, y); later ones are drawn on top
+export const operationAt = (band: CircuitBand, timeline: GateOperation[], x: number, y: number) =>
+  [...sortTimeline(timeline)].reverse().find(op => {
+    const bounds = operationBounds(band, op);
+    return x >= bounds.left && x <= bounds.right && y >= bounds.top && y <= bounds.bottom;
+  }) ?? null;
+
+// Near a column's centre joins it; between columns opens a new one; past the last appends
+export const slotAt = (band: CircuitBand, x: number): DiagramSlot => {
+  const { columns, columnX, columnSpacing } = band;
+  if (columns.length === 0) return { column: 0, insert: false, x: FIRST_COLUMN_X };
+  const last = columns[columns.length - 1];
+  const lastX = columnX.get(last)!;
+  if (x > lastX + columnSpacing / 2) return { column: last + 1, insert: false, x: lastX + columnSpacing };
+  const i = columns.reduce((best, column, j) => Math.abs(x - columnX.get(column)!) < Math.abs(x - columnX.get(columns[best])!) ? j : best, 0);
+  const centre = columnX.get(columns[i])!;
+  if (Math.abs(x - centre) <= columnSpacing / 4) return { column: columns[i], insert: false, x: centre };
+  if (x < centre) return { column: columns[i], insert: true, x: centre - columnSpacing / 2 };
+  return { column: columns[i] + 1, insert: true, x: centre + columnSpacing / 2 };
+};
+
+const span = (op: Pick<GateOperation, 'targets' | 'controls'>) => {
+  const qubits = [...op.controls, ...op.targets];
+  return [Math.min(...qubits), Math.max(...qubits)];
+};
+
+// Adds `op` at `slot`. A slot whose column already holds a gate on the same wires opens a
+// fresh column there instead, so the new gate runs just before the one it was dropped on.
+export const placeOperation = (timeline: GateOperation[], op: Omit<GateOperation, 'column'>, slot: DiagramSlot): GateOperation[] => {
+  const [low, high] = span(op);
+  const occupied = timeline.some(other => {
+    if (other.column !== slot.column) return false;
+    const [otherLow, otherHigh] = span(other);
+    return otherLow <= high && low <= otherHigh;
+  });
+  if (!slot.insert && !occupied) return [...timeline, { ...op, column: slot.column }];
+  return [
+    ...timeline.map(other => other.column >= slot.column ? { ...other, column: other.column + 1 } : other),
+    { ...op, column: slot.column }
+  ];
+};
+
+// Moves `op` to `slot`, shifting all of its qubits by `wireDelta`
+export const moveOperation = (timeline: GateOperation[], op: GateOperation, slot: DiagramSlot, wireDelta: number) => {
+  const { column, ...moved } = op;
+  return placeOperation(
+    timeline.filter(other => other !== op),
+    { ...moved, targets: op.targets.map(q => q + wireDelta), controls: op.controls.map(q => q + wireDelta) },
+    slot
+  );
+};
+
+// Qubits, in role order, for a gate dropped on `wire`: the wires below it, or above when the
+// circuit ends first
+export const droppedQubits = (gate: GateName, wire: number, numQubits: number) => {
+  const count = gateQubitRoles(gate).length;
+  if (count > numQubits) return null;
+  const step = wire + count - 1 < numQubits ? 1 : -1;
+  return Array.from({ length: count }, (_, k) => wire + step * k);
+};
+
+// Qubits, in role order, for a gate drawn by dragging from wire `from` to wire `to`: the ends
+// are the first and last qubit, and a third qubit is the wire next to `from`
+export const drawnQubits = (gate: GateName, from: number, to: number) => {
+  const count = gateQubitRoles(gate).length;
+  if (count === 2) return from === to ? null : [from, to];
+  if (count === 3) return Math.abs(to - from) < 2 ? null : [from, from + Math.sign(to - from), to];
+  return [to];
+};
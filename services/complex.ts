@@ -0,0 +1,29 @@
+import type { Complex } from '../types';
+
+export const complex = (re: number, im = 0): Complex => ({ re, im });
+
+// r·e^{iθ}
+export const fromPolar = (r: number, theta: number): Complex => ({ re: r * Math.cos(theta), im: r * Math.sin(theta) });
+
+export const ZERO = complex(0);
+export const ONE = complex(1);
+export const I = complex(0, 1);
+
+export const add = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+
+export const sub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+
+export const mul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re
+});
+
+export const scale = (a: Complex, k: number): Complex => ({ re: a.re * k, im: a.im * k });
+
+export const conj = (a: Complex): Complex => ({ re: a.re, im: -a.im });
+
+export const abs2 = (a: Complex) => a.re * a.re + a.im * a.im;
+
+export const abs = (a: Complex) => Math.sqrt(abs2(a));
+
+export const arg = (a: Complex) => Math.atan2(a.im, a.re);
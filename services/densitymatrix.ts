@@ -0,0 +1,243 @@
+import type { Complex } from '../types';
+import { complex, conj } from './complex';
+import { sampleIndex, type GateMatrix, type QuantumRegister, type StateVector } from './statevector';
+
+// Dense 2^n x 2^n density matrix, row-major, using the same little-endian qubit
+// ordering as StateVector. Entry (r, c) lives at index r * dimension + c.
+export class DensityMatrix implements QuantumRegister {
+  numQubits: number;
+  dimension: number;
+  re: Float64Array;
+  im: Float64Array;
+
+  constructor(numQubits: number) {
+    this.numQubits = numQubits;
+    this.dimension = 1 << numQubits;
+    this.re = new Float64Array(this.dimension * this.dimension);
+    this.im = new Float64Array(this.dimension * this.dimension);
+    this.re[0] = 1;
+  }
+
+  // |ψ⟩⟨ψ|
+  static fromStateVector(state: StateVector): DensityMatrix {
+    const rho = new DensityMatrix(state.numQubits);
+    const dim = rho.dimension;
+    for (let r = 0; r < dim; r++) {
+      for (let c = 0; c < dim; c++) {
+        rho.re[r * dim + c] = state.re[r] * state.re[c] + state.im[r] * state.im[c];
+        rho.im[r * dim + c] = state.im[r] * state.re[c] - state.re[r] * state.im[c];
+      }
+    }
+    return rho;
+  }
+
+  // ρ_b ⊗ ρ_a, with the same qubit placement as StateVector.tensor
+  static tensor(a: DensityMatrix, b: DensityMatrix): DensityMatrix {
+    const joint = new DensityMatrix(a.numQubits + b.numQubits);
+    const dim = joint.dimension;
+    joint.re[0] = 0;
+    for (let rb = 0; rb < b.dimension; rb++) {
+      for (let cb = 0; cb < b.dimension; cb++) {
+        const bRe = b.re[rb * b.dimension + cb], bIm = b.im[rb * b.dimension + cb];
+        if (bRe === 0 && bIm === 0) continue;
+        for (let ra = 0; ra < a.dimension; ra++) {
+          for (let ca = 0; ca < a.dimension; ca++) {
+            const aRe = a.re[ra * a.dimension + ca], aIm = a.im[ra * a.dimension + ca];
+            const idx = (ra | (rb << a.numQubits)) * dim + (ca | (cb << a.numQubits));
+            joint.re[idx] = aRe * bRe - aIm * bIm;
+            joint.im[idx] = aRe * bIm + aIm * bRe;
+          }
+        }
+      }
+    }
+    return joint;
+  }
+
+  clone() {
+    const copy = new DensityMatrix(this.numQubits);
+    copy.re.set(this.re);
+    copy.im.set(this.im);
+    return copy;
+  }
+
+  applySingleQubitGate(target: number, m: GateMatrix) {
+    this.applyControlledGate([], target, m);
+  }
+
+  // ρ → UρU†, where U applies `m` to `target` when every control qubit is |1⟩
+  applyControlledGate(controls: number[], target: number, m: GateMatrix) {
+    const targetMask = 1 << target;
+    const controlMask = controls.reduce((mask, c) => mask | (1 << c), 0);
+    const dim = this.dimension;
+    // U acting on the row index
+    for (let i = 0; i < dim; i++) {
+      if (i & targetMask || (i & controlMask) !== controlMask) continue;
+      const j = i | targetMask;
+      for (let c = 0; c < dim; c++) {
+        this.mix(i * dim + c, j * dim + c, m[0][0], m[0][1], m[1][0], m[1][1]);
+      }
+    }
+    // U* acting on the column index
+    const m00 = conj(m[0][0]), m01 = conj(m[0][1]), m10 = conj(m[1][0]), m11 = conj(m[1][1]);
+    for (let i = 0; i < dim; i++) {
+      if (i & targetMask || (i & controlMask) !== controlMask) continue;
+      const j = i | targetMask;
+      for (let r = 0; r < dim; r++) {
+        this.mix(r * dim + i, r * dim + j, m00, m01, m10, m11);
+      }
+    }
+  }
+
+  // ρ → Σ_k K_k ρ K_k†, for single-qubit Kraus operators K_k on `target`
+  applyChannel(target: number, kraus: GateMatrix[]) {
+    const mask = 1 << target;
+    const dim = this.dimension;
+    const blockRe = new Float64Array(4), blockIm = new Float64Array(4);
+    for (let r0 = 0; r0 < dim; r0++) {
+      if (r0 & mask) continue;
+      const r1 = r0 | mask;
+      for (let c0 = 0; c0 < dim; c0++) {
+        if (c0 & mask) continue;
+        const c1 = c0 | mask;
+        const idx = [r0 * dim + c0, r0 * dim + c1, r1 * dim + c0, r1 * dim + c1];
+        for (let k = 0; k < 4; k++) {
+          blockRe[k] = this.re[idx[k]];
+          blockIm[k] = this.im[idx[k]];
+          this.re[idx[k]] = 0;
+          this.im[idx[k]] = 0;
+        }
+        kraus.forEach(K => {
+          // (K B K†)_{ab} = Σ_{xy} K_{ax} B_{xy} conj(K_{by})
+          for (let a = 0; a < 2; a++) {
+            for (let b = 0; b < 2; b++) {
+              let sumRe = 0, sumIm = 0;
+              for (let x = 0; x < 2; x++) {
+                for (let y = 0; y < 2; y++) {
+                  const kax = K[a][x], kby = K[b][y];
+                  const bRe = blockRe[x * 2 + y], bIm = blockIm[x * 2 + y];
+                  // kax * B
+                  const tRe = kax.re * bRe - kax.im * bIm;
+                  const tIm = kax.re * bIm + kax.im * bRe;
+                  // * conj(kby)
+                  sumRe += tRe * kby.re + tIm * kby.im;
+                  sumIm += tIm * kby.re - tRe * kby.im;
+                }
+              }
+              this.re[idx[a * 2 + b]] += sumRe;
+              this.im[idx[a * 2 + b]] += sumIm;
+            }
+          }
+        });
+      }
+    }
+  }
+
+  swap(a: number, b: number) {
+    if (a === b) return;
+    const maskA = 1 << a;
+    const maskB = 1 << b;
+    const permute = (i: number) => {
+      const bitA = (i & maskA) ? 1 : 0;
+      const bitB = (i & maskB) ? 1 : 0;
+      return bitA === bitB ? i : i ^ maskA ^ maskB;
+    };
+    const dim = this.dimension;
+    const re = new Float64Array(this.re.length);
+    const im = new Float64Array(this.im.length);
+    for (let r = 0; r < dim; r++) {
+      const pr = permute(r);
+      for (let c = 0; c < dim; c++) {
+        re[pr * dim + permute(c)] = this.re[r * dim + c];
+        im[pr * dim + permute(c)] = this.im[r * dim + c];
+      }
+    }
+    this.re = re;
+    this.im = im;
+  }
+
+  // ⟨1|ρ_q|0⟩ of the reduced single-qubit state
+  coherence(qubit: number): Complex {
+    const mask = 1 << qubit;
+    const dim = this.dimension;
+    let re = 0, im = 0;
+    for (let i = 0; i < dim; i++) {
+      if (i & mask) continue;
+      re += this.re[(i | mask) * dim + i];
+      im += this.im[(i | mask) * dim + i];
+    }
+    return complex(re, im);
+  }
+
+  probabilities() {
+    const probs = new Float64Array(this.dimension);
+    for (let i = 0; i < this.dimension; i++) {
+      probs[i] = this.re[i * this.dimension + i];
+    }
+    return probs;
+  }
+
+  probabilityOfOne(qubit: number) {
+    const mask = 1 << qubit;
+    let p = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      if (i & mask) p += this.re[i * this.dimension + i];
+    }
+    return p;
+  }
+
+  probabilityAllOnes(qubits: number[]) {
+    const mask = qubits.reduce((m, q) => m | (1 << q), 0);
+    let p = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      if ((i & mask) === mask) p += this.re[i * this.dimension + i];
+    }
+    return p;
+  }
+
+  // tr(ρ²)
+  purity() {
+    let sum = 0;
+    for (let k = 0; k < this.re.length; k++) {
+      sum += this.re[k] ** 2 + this.im[k] ** 2;
+    }
+    return sum;
+  }
+
+  // Samples the joint outcome of `qubits` and projects ρ onto it
+  measure(qubits: number[], random: () => number = Math.random): number[] {
+    const probs = this.probabilities();
+    const sampled = sampleIndex(probs, random);
+    const mask = qubits.reduce((m, q) => m | (1 << q), 0);
+    const pattern = sampled & mask;
+    const dim = this.dimension;
+    let norm = 0;
+    for (let i = 0; i < dim; i++) {
+      if ((i & mask) === pattern) norm += probs[i];
+    }
+    const scale = norm > 0 ? 1 / norm : 0;
+    for (let r = 0; r < dim; r++) {
+      const keepRow = (r & mask) === pattern;
+      for (let c = 0; c < dim; c++) {
+        const idx = r * dim + c;
+        if (keepRow && (c & mask) === pattern) {
+          this.re[idx] *= scale;
+          this.im[idx] *= scale;
+        } else {
+          this.re[idx] = 0;
+          this.im[idx] = 0;
+        }
+      }
+    }
+    return qubits.map(q => (sampled >> q) & 1);
+  }
+
+  // [x, y] → [m00 x + m01 y, m10 x + m11 y] on two stored entries
+  mix(x: number, y: number, m00: Complex, m01: Complex, m10: Complex, m11: Complex) {
+    const xRe = this.re[x], xIm = this.im[x];
+    const yRe = this.re[y], yIm = this.im[y];
+    this.re[x] = m00.re * xRe - m00.im * xIm + m01.re * yRe - m01.im * yIm;
+    this.im[x] = m00.re * xIm + m00.im * xRe + m01.re * yIm + m01.im * yRe;
+    this.re[y] = m10.re * xRe - m10.im * xIm + m11.re * yRe - m11.im * yIm;
+    this.im[y] = m10.re * xIm + m10.im * xRe + m11.re * yIm + m11.im * yRe;
+  }
+}
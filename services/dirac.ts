@@ -0,0 +1,219 @@
+import { DIRAC_LIMITS, PHYSICAL_CONSTANTS, WORMHOLE_CONFIG } from '../constants';
+import { add, arg, complex, fromPolar, mul, scale } from './complex';
+import type { Complex, DiracBoundState, DiracSpectrum, MajoranaFieldPoint, SpacetimePoint, WormholeConfig } from '../types';
+
+// Dirac equation i∂_t ψ = √N (β m(l) + α_y ∂_l) √N ψ for ψ = (ψ1, ψ2) along the throat, with
+// lengths in units of b0, time in b0/c, energies in ħc/b0 and N = e^Φ the lapse. The mass
+// m(l) = m + ξR couples the Majorana mass to curvature; where it changes sign a Jackiw–Rebbi
+// zero mode binds. The Majorana mass is measured against the reference configuration's.
+
+// Dirac matrices: β for the mass, α_y = -iσ_y (real) for the derivative, α_x for the chirality
+const getDiracMatrices = () => ({
+  alpha_x: [[0, 1], [1, 0]],
+  alpha_y: [[0, -1], [1, 0]],
+  beta: [[1, 0], [0, -1]],
+  gamma: [
+    [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, -1, 0], [0, 0, 0, -1]],
+    [[0, 0, 0, 1], [0, 0, 1, 0], [0, -1, 0, 0], [-1, 0, 0, 0]]
+  ]
+});
+
+// Real symmetric tridiagonal matrix: `diagonal` and the `off` diagonal next to it
+interface Tridiagonal {
+  diagonal: number[];
+  off: number[];
+}
+
+// ψ1 lives on the sample points and ψ2 halfway between them, interleaved as ψ1(0), ψ2(½), ψ1(1), …
+// This staggering keeps the lattice free of doubled fermions and makes H tridiagonal.
+const diracHamiltonian = (mass: number[], lapse: number[], step: number): Tridiagonal => {
+  const { alpha_y, beta } = getDiracMatrices();
+  const midpoint = (values: number[], j: number) => (values[j] + values[j + 1]) / 2;
+  const sites = mass.length;
+  const siteLapse = Array.from({ length: 2 * sites - 1 }, (_, k) => (k % 2 === 0 ? lapse[k / 2] : midpoint(lapse, (k - 1) / 2)));
+  const diagonal = siteLapse.map((N, k) => N * (k % 2 === 0 ? beta[0][0] * mass[k / 2] : beta[1][1] * midpoint(mass, (k - 1) / 2)));
+  // ∂_l ψ1 at j + ½ is (ψ1(j+1) - ψ1(j))/step; α_y sends it to ψ2 and -∂_l ψ2 back to ψ1
+  const off = Array.from({ length: 2 * sites - 2 }, (_, k) =>
+    Math.sqrt(siteLapse[k] * siteLapse[k + 1]) * (k % 2 === 0 ? -alpha_y[1][0] : alpha_y[1][0]) / step);
+  return { diagonal, off };
+};
+
+// Eigenvalues below x (Sturm sequence)
+const countBelow = ({ diagonal, off }: Tridiagonal, x: number) => {
+  let count = 0;
+  let q = 1;
+  diagonal.forEach((d, i) => {
+    q = d - x - (i > 0 ? off[i - 1] ** 2 / (q || 1e-300) : 0);
+    if (q < 0) count++;
+  });
+  return count;
+};
+
+// k-th smallest eigenvalue, by bisection between the Gershgorin bounds
+const eigenvalue = (matrix: Tridiagonal, k: number) => {
+  const radius = (i: number) => Math.abs(matrix.off[i - 1] ?? 0) + Math.abs(matrix.off[i] ?? 0);
+  let low = Math.min(...matrix.diagonal.map((d, i) => d - radius(i)));
+  let high = Math.max(...matrix.diagonal.map((d, i) => d + radius(i)));
+  for (let iteration = 0; iteration < 100 && high - low > 1e-12 * Math.max(1, Math.abs(low), Math.abs(high)); iteration++) {
+    const middle = (low + high) / 2;
+    if (countBelow(matrix, middle) > k) high = middle;
+    else low = middle;
+  }
+  return (low + high) / 2;
+};
+
+// Solves (H - shift) x = rhs by Thomas elimination
+const solveShifted = ({ diagonal, off }: Tridiagonal, shift: number, rhs: number[]) => {
+  const n = diagonal.length;
+  const c = new Array<number>(n);
+  const x = new Array<number>(n);
+  let pivot = diagonal[0] - shift || 1e-300;
+  c[0] = (off[0] ?? 0) / pivot;
+  x[0] = rhs[0] / pivot;
+  for (let i = 1; i < n; i++) {
+    pivot = diagonal[i] - shift - off[i - 1] * c[i - 1] || 1e-300;
+    c[i] = (off[i] ?? 0) / pivot;
+    x[i] = (rhs[i] - off[i - 1] * x[i - 1]) / pivot;
+  }
+  for (let i = n - 2; i >= 0; i--) x[i] -= c[i] * x[i + 1];
+  return x;
+};
+
+// Normalized so that Σ|ψ|² step = 1
+const normalize = (vector: number[], step: number) => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0) * step);
+  return vector.map(v => v / norm);
+};
+
+// Inverse iteration, kept orthogonal to the (near-)degenerate vectors already found
+const eigenvector = (matrix: Tridiagonal, energy: number, step: number, previous: number[][]) => {
+  const shift = energy + 1e-10 * Math.max(1, Math.abs(energy));
+  let vector = normalize(matrix.diagonal.map((_, i) => 1 + 0.5 * Math.sin(0.37 * i)), step);
+  for (let iteration = 0; iteration < 4; iteration++) {
+    vector = solveShifted(matrix, shift, vector);
+    previous.forEach(other => {
+      const overlap = vector.reduce((sum, v, i) => sum + v * other[i], 0) * step;
+      vector = vector.map((v, i) => v - overlap * other[i]);
+    });
+    vector = normalize(vector, step);
+  }
+  return vector;
+};
+
+// ⟨α_x⟩ = 2 Re(ψ1* ψ2), pairing each ψ2 with the ψ1 on either side
+const chirality = (vector: number[], step: number) => {
+  const { alpha_x } = getDiracMatrices();
+  let sum = 0;
+  for (let k = 1; k < vector.length; k += 2) sum += alpha_x[0][1] * vector[k] * (vector[k - 1] + vector[k + 1]);
+  return sum * step;
+};
+
+// Crank–Nicolson step (1 + iHdt/2) ψ' = (1 - iHdt/2) ψ, unitary for any dt. The left-hand matrix
+// is the same every step, so it is eliminated once; the returned step updates ψ in place.
+const crankNicolson = ({ diagonal, off }: Tridiagonal, dt: number) => {
+  const n = diagonal.length;
+  const a = dt / 2;
+  // Thomas elimination of 1 + iaH: c_i = ia e_i / p_i with pivots p_i = 1 + ia d_i - ia e_{i-1} c_{i-1}
+  const cRe = new Float64Array(n);
+  const cIm = new Float64Array(n);
+  const qRe = new Float64Array(n);
+  const qIm = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const e = i > 0 ? off[i - 1] : 0;
+    const pRe = 1 + (i > 0 ? a * e * cIm[i - 1] : 0);
+    const pIm = a * diagonal[i] - (i > 0 ? a * e * cRe[i - 1] : 0);
+    const norm = pRe * pRe + pIm * pIm;
+    qRe[i] = pRe / norm;
+    qIm[i] = -pIm / norm;
+    const next = i < n - 1 ? a * off[i] : 0;
+    cRe[i] = -next * qIm[i];
+    cIm[i] = next * qRe[i];
+  }
+  const rhsRe = new Float64Array(n);
+  const rhsIm = new Float64Array(n);
+  return (re: Float64Array, im: Float64Array) => {
+    for (let i = 0; i < n; i++) {
+      const hRe = diagonal[i] * re[i] + (i > 0 ? off[i - 1] * re[i - 1] : 0) + (i < n - 1 ? off[i] * re[i + 1] : 0);
+      const hIm = diagonal[i] * im[i] + (i > 0 ? off[i - 1] * im[i - 1] : 0) + (i < n - 1 ? off[i] * im[i + 1] : 0);
+      rhsRe[i] = re[i] + a * hIm;
+      rhsIm[i] = im[i] - a * hRe;
+    }
+    for (let i = 0; i < n; i++) {
+      const e = i > 0 ? a * off[i - 1] : 0;
+      const numRe = rhsRe[i] + (i > 0 ? e * im[i - 1] : 0);
+      const numIm = rhsIm[i] - (i > 0 ? e * re[i - 1] : 0);
+      re[i] = numRe * qRe[i] - numIm * qIm[i];
+      im[i] = numRe * qIm[i] + numIm * qRe[i];
+    }
+    for (let i = n - 2; i >= 0; i--) {
+      re[i] -= cRe[i] * re[i + 1] - cIm[i] * im[i + 1];
+      im[i] -= cRe[i] * im[i + 1] + cIm[i] * re[i + 1];
+    }
+  };
+};
+
+// Solves the field on the throat sampled at `points` and evolves the legacy profile
+// ψ = e^{-|l|} e^{iφ/2} (1, i), φ = 2πj/num_points, for teleport_time
+export const solveMajoranaField = (points: SpacetimePoint[], config: WormholeConfig): { field: MajoranaFieldPoint[]; spectrum: DiracSpectrum } => {
+  const b0 = config.wormhole_distance;
+  const step = 10 / config.num_points;
+  const baseMass = config.majorana_mass / WORMHOLE_CONFIG.majorana_mass;
+  const mass = points.map(point => baseMass + config.curvature_coupling * point.ricci_scalar * b0 * b0);
+  const lapse = points.map(point => point.lapse);
+  const hamiltonian = diracHamiltonian(mass, lapse, step);
+
+  // Bound states: eigenvalues inside the gap left by the mass at both ends, nearest zero first
+  const ends = [0, points.length - 1];
+  const mass_gap = Math.min(...ends.map(j => Math.abs(mass[j]) * lapse[j]));
+  const first = countBelow(hamiltonian, -mass_gap);
+  const last = countBelow(hamiltonian, mass_gap);
+  const center = countBelow(hamiltonian, 0);
+  const half = Math.floor(DIRAC_LIMITS.bound_states / 2);
+  const indices = Array.from({ length: last - first }, (_, i) => first + i)
+    .filter(k => k >= center - half && k < center + DIRAC_LIMITS.bound_states - half);
+  const vectors: number[][] = [];
+  const bound_states: DiracBoundState[] = indices.map(k => {
+    const energy = eigenvalue(hamiltonian, k);
+    const vector = eigenvector(hamiltonian, energy, step, vectors);
+    vectors.push(vector);
+    return { energy, chirality: chirality(vector, step), zero_mode: Math.abs(energy) < DIRAC_LIMITS.zero_mode_energy };
+  });
+
+  const evolution_time = config.teleport_time * PHYSICAL_CONSTANTS.C / b0;
+  const steps = Math.min(DIRAC_LIMITS.max_steps, Math.max(1, Math.ceil(evolution_time / DIRAC_LIMITS.time_step)));
+  const l = (k: number) => (k / 2 / config.num_points - 0.5) * 10;
+  const initial = hamiltonian.diagonal.map((_, k) => {
+    const value = fromPolar(Math.exp(-Math.abs(l(k))), Math.PI * k / 2 / config.num_points);
+    return k % 2 === 0 ? value : mul(complex(0, 1), value);
+  });
+  const re = Float64Array.from(initial, value => value.re);
+  const im = Float64Array.from(initial, value => value.im);
+  const evolve = crankNicolson(hamiltonian, evolution_time / steps);
+  for (let s = 0; s < steps; s++) evolve(re, im);
+  const psi = Array.from(re, (value, k) => complex(value, im[k]));
+
+  // ψ2 at a sample point is the mean of its two neighbours
+  const components = points.map((_, j) => {
+    const neighbours = [psi[2 * j - 1], psi[2 * j + 1]].filter(Boolean);
+    return [psi[2 * j], scale(neighbours.reduce(add), 1 / neighbours.length)];
+  });
+  const amplitudes = components.map(([upper, lower]) => Math.hypot(upper.re, upper.im, lower.re, lower.im));
+  const peak = Math.max(...amplitudes) || 1;
+  const zeroDensity = points.map((_, j) =>
+    vectors.reduce((sum, vector, n) => (bound_states[n].zero_mode ? sum + vector[2 * j] ** 2 + (vector[2 * j + 1] ?? 0) ** 2 : sum), 0));
+  const zeroPeak = Math.max(...zeroDensity) || 1;
+
+  const field = points.map((point, j) => {
+    const [upper, lower] = components[j];
+    const phase = arg(upper) + arg(lower) - Math.PI / 2;
+    return {
+      position: point.z,
+      amplitude: amplitudes[j] / peak,
+      phase: ((phase % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI),
+      spinor: [upper.re, upper.im, lower.re, lower.im].map(v => v / peak),
+      mass_term: mass[j] * WORMHOLE_CONFIG.majorana_mass,
+      zero_mode: zeroDensity[j] / zeroPeak
+    };
+  });
+  return { field, spectrum: { mass_gap, evolution_time, bound_states } };
+};
@@ -0,0 +1,214 @@
+import { ENTANGLEMENT_LIMITS } from '../constants';
+import { DensityMatrix } from './densitymatrix';
+import type { QuantumRegister, StateVector } from './statevector';
+import type { CircuitEntanglement, CircuitPairEntanglement, ComplexMatrix, EntanglementReport } from '../types';
+
+
+const zeros = (n: number) => Array.from({ length: n }, () => new Array(n).fill(0));
+
+// Basis index of the full register with `bits` spread over `qubits`
+const scatter = (bits: number, qubits: number[]) =>
+  qubits.reduce((index, q, k) => index | (((bits >> k) & 1) << q), 0);
+
+// Inverse of scatter: the bits `qubits` hold in a basis index of the full register
+const gather = (index: number, qubits: number[]) =>
+  qubits.reduce((bits, q, k) => bits | (((index >> q) & 1) << k), 0);
+
+// ρ_X = tr_{rest}(ρ) for the listed qubits of a pure or mixed register, indexed little-endian
+// in the order the qubits are given
+export const reducedDensityMatrix = (register: QuantumRegister, qubits: number[]): ComplexMatrix => {
+  const size = 1 << qubits.length;
+  const mask = scatter(size - 1, qubits);
+  const offsets = Array.from({ length: size }, (_, b) => scatter(b, qubits));
+  const rho = { re: zeros(size), im: zeros(size) };
+  const dimension = 1 << register.numQubits;
+  for (let i = 0; i < dimension; i++) {
+    const rest = i & ~mask;
+    const a = gather(i, qubits);
+    for (let b = 0; b < size; b++) {
+      const j = rest | offsets[b];
+      if (register instanceof DensityMatrix) {
+        rho.re[a][b] += register.re[i * dimension + j];
+        rho.im[a][b] += register.im[i * dimension + j];
+      } else {
+        // ψ(i)·ψ*(j)
+        const state = register as StateVector;
+        rho.re[a][b] += state.re[i] * state.re[j] + state.im[i] * state.im[j];
+        rho.im[a][b] += state.im[i] * state.re[j] - state.re[i] * state.im[j];
+      }
+    }
+  }
+  return rho;
+};
+
+// Cyclic Jacobi on a real symmetric matrix: eigenvalues and the eigenvectors as columns of V
+const jacobiEigen = (matrix: number[][]) => {
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const v = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => (i === j ? 1 : 0)));
+  for (let sweep = 0; sweep < 60; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] ** 2;
+    if (off < 1e-24) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: a.map((row, i) => row[i]), vectors: v };
+};
+
+// A Hermitian H = A + iB as the real symmetric [[A, -B], [B, A]], whose spectrum is H's, doubled
+const realEmbedding = ({ re, im }: ComplexMatrix) => {
+  const n = re.length;
+  return Array.from({ length: 2 * n }, (_, i) => Array.from({ length: 2 * n }, (_, j) => {
+    const [r, c] = [i % n, j % n];
+    if ((i < n) === (j < n)) return re[r][c];
+    return i < n ? -im[r][c] : im[r][c];
+  }));
+};
+
+// Eigenvalues of a Hermitian matrix, in decreasing order
+export const hermitianEigenvalues = (matrix: ComplexMatrix) =>
+  jacobiEigen(realEmbedding(matrix)).values.sort((x, y) => y - x).filter((_, k) => k % 2 === 0);
+
+// f(H) through its spectral decomposition
+const hermitianFunction = (matrix: ComplexMatrix, f: (x: number) => number): ComplexMatrix => {
+  const n = matrix.re.length;
+  const { values, vectors } = jacobiEigen(realEmbedding(matrix));
+  const entry = (i: number, j: number) => values.reduce((sum, value, k) => sum + vectors[i][k] * f(value) * vectors[j][k], 0);
+  return {
+    re: Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => entry(i, j))),
+    im: Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => entry(i + n, j)))
+  };
+};
+
+const multiply = (x: ComplexMatrix, y: ComplexMatrix): ComplexMatrix => {
+  const n = x.re.length;
+  const product = { re: zeros(n), im: zeros(n) };
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < n; k++) {
+      const xr = x.re[i][k], xi = x.im[i][k];
+      for (let j = 0; j < n; j++) {
+        product.re[i][j] += xr * y.re[k][j] - xi * y.im[k][j];
+        product.im[i][j] += xr * y.im[k][j] + xi * y.re[k][j];
+      }
+    }
+  }
+  return product;
+};
+
+// Shannon entropy in bits of a spectrum
+const spectrumEntropy = (eigenvalues: number[]) =>
+  Math.max(0, eigenvalues.reduce((sum, p) => (p > 1e-12 ? sum - p * Math.log2(p) : sum), 0));
+
+// S(ρ) = -tr(ρ log₂ ρ)
+export const vonNeumannEntropy = (rho: ComplexMatrix) => spectrumEntropy(hermitianEigenvalues(rho));
+
+// Wootters concurrence of a two-qubit state: max(0, λ1 - λ2 - λ3 - λ4), with λ the square roots
+// of the eigenvalues of √ρ ρ̃ √ρ and ρ̃ = (Y⊗Y) ρ* (Y⊗Y)
+export const concurrence = (rho: ComplexMatrix) => {
+  const signs = [-1, 1, 1, -1];
+  const flipped = {
+    re: rho.re.map((row, i) => row.map((_, j) => signs[i] * signs[j] * rho.re[3 - i][3 - j])),
+    im: rho.im.map((row, i) => row.map((_, j) => -signs[i] * signs[j] * rho.im[3 - i][3 - j]))
+  };
+  const root = hermitianFunction(rho, x => Math.sqrt(Math.max(0, x)));
+  const [l1, l2, l3, l4] = hermitianEigenvalues(multiply(multiply(root, flipped), root)).map(x => Math.sqrt(Math.max(0, x)));
+  return Math.max(0, l1 - l2 - l3 - l4);
+};
+
+// ρ^{T_B}, transposing the qubit positions set in `mask`
+const partialTranspose = (rho: ComplexMatrix, mask: number): ComplexMatrix => {
+  const swapBits = (i: number, j: number) => (i & ~mask) | (j & mask);
+  return {
+    re: rho.re.map((row, i) => row.map((_, j) => rho.re[swapBits(i, j)][swapBits(j, i)])),
+    im: rho.im.map((row, i) => row.map((_, j) => rho.im[swapBits(i, j)][swapBits(j, i)]))
+  };
+};
+
+// N = (‖ρ^{T_B}‖₁ - 1) / 2, the sum of |negative eigenvalues| of the partial transpose;
+// `bQubits` are positions within ρ
+export const negativity = (rho: ComplexMatrix, bQubits: number[]) =>
+  hermitianEigenvalues(partialTranspose(rho, bQubits.reduce((mask, q) => mask | (1 << q), 0)))
+    .reduce((sum, x) => (x < 0 ? sum - x : sum), 0);
+
+// A circuit's qubits inside its (possibly shared) register
+export interface EntanglementSource {
+  id: string;
+  register: QuantumRegister;
+  indices: number[];
+}
+
+// Entropy of a subset of a register. Pure registers use S(X) = S(complement), whichever is
+// smaller; null when that is still wider than the limit.
+const subsystemEntropy = (register: QuantumRegister, qubits: number[]) => {
+  if (qubits.length === 0) return 0;
+  const pure = !(register instanceof DensityMatrix);
+  const complement = Array.from({ length: register.numQubits }, (_, q) => q).filter(q => !qubits.includes(q));
+  const smaller = pure && complement.length < qubits.length ? complement : qubits;
+  if (smaller.length > ENTANGLEMENT_LIMITS.subsystem) return null;
+  return vonNeumannEntropy(reducedDensityMatrix(register, smaller));
+};
+
+const circuitPair = (a: EntanglementSource, b: EntanglementSource, entropies: Map<string, number | null>): CircuitPairEntanglement => {
+  // Circuits on different registers are in a product state
+  if (a.register !== b.register) return { a: a.id, b: b.id, mutual_information: 0, negativity: 0 };
+  const register = a.register;
+  const joint = [...a.indices, ...b.indices];
+  const sA = entropies.get(a.id), sB = entropies.get(b.id), sAB = subsystemEntropy(register, joint);
+  const mutual_information = sA == null || sB == null || sAB == null ? null : sA + sB - sAB;
+
+  let pairNegativity: number | null = null;
+  if (!(register instanceof DensityMatrix) && joint.length === register.numQubits) {
+    // Pure AB: N = ((Σ√λ)² - 1) / 2 over the Schmidt coefficients λ, the spectrum of ρ_A
+    const smaller = a.indices.length <= b.indices.length ? a.indices : b.indices;
+    if (smaller.length <= ENTANGLEMENT_LIMITS.subsystem) {
+      const roots = hermitianEigenvalues(reducedDensityMatrix(register, smaller)).reduce((sum, x) => sum + Math.sqrt(Math.max(0, x)), 0);
+      pairNegativity = (roots * roots - 1) / 2;
+    }
+  } else if (joint.length <= ENTANGLEMENT_LIMITS.subsystem) {
+    pairNegativity = negativity(reducedDensityMatrix(register, joint), b.indices.map((_, k) => a.indices.length + k));
+  }
+  return { a: a.id, b: b.id, mutual_information, negativity: pairNegativity };
+};
+
+// Entanglement of every qubit with the rest of its register, pairwise concurrence between
+// qubits, and per-circuit entropies, mutual information and negativity
+export const entanglementReport = (sources: EntanglementSource[]): EntanglementReport => {
+  const qubits = sources.flatMap(source => source.indices.map((index, k) => ({ label: `${source.id}${k}`, register: source.register, index })));
+  const concurrenceMatrix = zeros(qubits.length);
+  qubits.forEach((x, i) => qubits.forEach((y, j) => {
+    if (j <= i || x.register !== y.register || x.register.numQubits > ENTANGLEMENT_LIMITS.pairwise_register) return;
+    concurrenceMatrix[i][j] = concurrenceMatrix[j][i] = concurrence(reducedDensityMatrix(x.register, [x.index, y.index]));
+  }));
+
+  const circuits: CircuitEntanglement[] = sources.map(source => ({ id: source.id, entropy: subsystemEntropy(source.register, source.indices) }));
+  const entropies = new Map(circuits.map(circuit => [circuit.id, circuit.entropy]));
+  const pairs = sources.flatMap((a, i) => sources.slice(i + 1).map(b => circuitPair(a, b, entropies)));
+
+  return {
+    qubits: qubits.map(({ label, register, index }) => ({ id: label, entropy: vonNeumannEntropy(reducedDensityMatrix(register, [index])) })),
+    concurrence: concurrenceMatrix,
+    circuits,
+    pairs
+  };
+};
@@ -0,0 +1,113 @@
+// Arithmetic angle expressions such as `pi/3`, `-2*theta1` or `(phi + pi)/2`.
+// Grammar: expr = term (('+' | '-') term)*; term = unary (('*' | '/') unary)*;
+// unary = ('+' | '-') unary | power; power = primary ('^' unary)?;
+// primary = number | identifier | '(' expr ')'.
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, 'π': Math.PI };
+
+type Token = { kind: 'number'; value: number } | { kind: 'name'; value: string } | { kind: 'op'; value: string };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_π][A-Za-z0-9_]*)|([-+*/^()]))/y;
+  let index = 0;
+  while (index < source.length) {
+    if (/^\s*$/.test(source.slice(index))) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) throw new Error(`Carácter inesperado en "${source}" (posición ${index})`);
+    if (match[1] !== undefined) tokens.push({ kind: 'number', value: parseFloat(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ kind: 'name', value: match[2] });
+    else tokens.push({ kind: 'op', value: match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+};
+
+// Names referenced by an expression, excluding built-in constants
+export const expressionParameters = (source: string): string[] => {
+  try {
+    const names = tokenize(source)
+      .filter((token): token is { kind: 'name'; value: string } => token.kind === 'name' && !(token.value in CONSTANTS))
+      .map(token => token.value);
+    return [...new Set(names)];
+  } catch {
+    return [];
+  }
+};
+
+// Why `source` cannot be evaluated whatever its parameters are bound to, or null when it can
+export const expressionError = (source: string): string | null => {
+  try {
+    evaluateExpression(source, Object.fromEntries(expressionParameters(source).map(name => [name, 0])));
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// Evaluates an expression; throws on syntax errors and on names missing from `parameters`
+export const evaluateExpression = (source: string, parameters: Record<string, number> = {}): number => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const acceptOp = (...ops: string[]) => {
+    const token = peek();
+    if (token && token.kind === 'op' && ops.includes(token.value)) {
+      position++;
+      return token.value;
+    }
+    return null;
+  };
+
+  const parseExpr = (): number => {
+    let value = parseTerm();
+    let op;
+    while ((op = acceptOp('+', '-'))) {
+      value = op === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    let op;
+    while ((op = acceptOp('*', '/'))) {
+      value = op === '*' ? value * parseUnary() : value / parseUnary();
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    const op = acceptOp('+', '-');
+    if (op) return op === '-' ? -parseUnary() : parseUnary();
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    return acceptOp('^') ? Math.pow(base, parseUnary()) : base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (!token) throw new Error(`Expresión incompleta: "${source}"`);
+    if (token.kind === 'number') return token.value;
+    if (token.kind === 'name') {
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      if (token.value in parameters) return parameters[token.value];
+      throw new Error(`Parámetro sin valor: ${token.value}`);
+    }
+    if (token.value === '(') {
+      const value = parseExpr();
+      if (!acceptOp(')')) throw new Error(`Falta ")" en "${source}"`);
+      return value;
+    }
+    throw new Error(`Símbolo inesperado "${token.value}" en "${source}"`);
+  };
+
+  const value = parseExpr();
+  if (position < tokens.length) throw new Error(`Símbolo inesperado en "${source}"`);
+  return value;
+};
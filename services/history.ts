@@ -0,0 +1,59 @@
+import { HISTORY_LIMITS } from '../constants';
+import { METRIC_FAMILIES } from './metrics';
+import { TUNNELING_METHOD_LABELS } from './tunneling';
+import { FRAGMENT_SAMPLING_LABELS } from './wormhole';
+import type { ConfigurationHistory, ConfigurationSnapshot } from '../types';
+
+export const createHistory = (snapshot: ConfigurationSnapshot): ConfigurationHistory => ({
+  entries: [{ label: 'Estado inicial', snapshot, time: 0 }],
+  index: 0
+});
+
+// Fields are replaced, never mutated, so comparing references finds every edit
+export const sameSnapshot = (a: ConfigurationSnapshot, b: ConfigurationSnapshot) =>
+  (Object.keys(a) as (keyof ConfigurationSnapshot)[]).every(key => a[key] === b[key]);
+
+// What changed between two configurations, e.g. 'Circuito A: 12 → 13 puertas'
+export const describeChange = (before: ConfigurationSnapshot, after: ConfigurationSnapshot) => {
+  const changes: string[] = [];
+  after.circuits
+    .filter(circuit => !before.circuits.some(previous => previous.id === circuit.id))
+    .forEach(circuit => changes.push(`Añadir circuito ${circuit.id}`));
+  before.circuits
+    .filter(circuit => !after.circuits.some(next => next.id === circuit.id))
+    .forEach(circuit => changes.push(`Eliminar circuito ${circuit.id}`));
+  after.circuits.forEach(circuit => {
+    const previous = before.circuits.find(candidate => candidate.id === circuit.id);
+    if (!previous || previous === circuit) return;
+    if (previous.numQubits !== circuit.numQubits) changes.push(`Circuito ${circuit.id}: ${previous.numQubits} → ${circuit.numQubits} qubits`);
+    else if (previous.timeline !== circuit.timeline) changes.push(`Circuito ${circuit.id}: ${previous.timeline.length} → ${circuit.timeline.length} puertas`);
+  });
+  if (before.interCircuit !== after.interCircuit) changes.push(`Entrelazamiento inter-circuitos ${after.interCircuit ? 'activado' : 'desactivado'}`);
+  if (before.links !== after.links) changes.push(`Enlaces inter-circuito: ${before.links.length} → ${after.links.length}`);
+  if (before.densityMatrix !== after.densityMatrix) changes.push(`Matriz de densidad ${after.densityMatrix ? 'activada' : 'desactivada'}`);
+  if (before.noiseModel !== after.noiseModel) changes.push('Modelo de ruido');
+  if (before.parameterBindings !== after.parameterBindings) changes.push('Parámetros');
+  if (before.rngSeed !== after.rngSeed) changes.push('Semilla RNG');
+  if (before.teleportationConfig !== after.teleportationConfig) changes.push('Teletransporte');
+  if (before.wormholeConfig !== after.wormholeConfig) changes.push('Parámetros del wormhole');
+  if (before.metric !== after.metric) changes.push(`Métrica: ${METRIC_FAMILIES[after.metric.family].label}`);
+  if (before.tunnelingMethod !== after.tunnelingMethod) changes.push(`Tunelización: ${TUNNELING_METHOD_LABELS[after.tunnelingMethod]}`);
+  if (before.fragmentation !== after.fragmentation) changes.push(`Fragmentación: ${after.fragmentation.num_fragments} fragmentos (${FRAGMENT_SAMPLING_LABELS[after.fragmentation.sampling]})`);
+  return changes.join(', ') || 'Edición';
+};
+
+// Records `snapshot` after the current entry, dropping whatever could have been redone. An edit
+// with the same label as the latest one, made shortly after it with nothing undone in between,
+// replaces it instead.
+export const pushHistory = (history: ConfigurationHistory, label: string, snapshot: ConfigurationSnapshot, time = Date.now()): ConfigurationHistory => {
+  const entries = history.entries.slice(0, history.index + 1);
+  const latest = entries[entries.length - 1];
+  const merge = entries.length > 1 && entries.length === history.entries.length;
+  if (merge && latest.label === label && time - latest.time < HISTORY_LIMITS.coalesce_ms) {
+    entries[entries.length - 1] = { label, snapshot, time };
+  } else {
+    entries.push({ label, snapshot, time });
+  }
+  const kept = entries.slice(-HISTORY_LIMITS.entries);
+  return { entries: kept, index: kept.length - 1 };
+};
@@ -0,0 +1,44 @@
+import type { CircuitConfig, InterCircuitLink, InterCircuitLinkOperation } from '../types';
+
+export const LINK_OPERATION_LABELS: Record<InterCircuitLinkOperation, string> = {
+  bell: 'Par de Bell (H + CNOT)',
+  cnot: 'CNOT',
+  cz: 'CZ'
+};
+
+export const describeLink = (link: InterCircuitLink) =>
+  `${link.from}${link.fromQubit}-${link.to}${link.toQubit}`;
+
+export const sameLink = (a: InterCircuitLink, b: InterCircuitLink) =>
+  (a.from === b.from && a.fromQubit === b.fromQubit && a.to === b.to && a.toQubit === b.toQubit) ||
+  (a.from === b.to && a.fromQubit === b.toQubit && a.to === b.from && a.toQubit === b.fromQubit);
+
+// Chains each circuit to the next through qubit 2 (or the last qubit of a narrower circuit): A2-B2, B2-C2, ...
+export const defaultInterCircuitLinks = (circuits: CircuitConfig[]): InterCircuitLink[] =>
+  circuits.slice(1).map((circuit, k) => ({
+    from: circuits[k].id,
+    fromQubit: Math.min(2, circuits[k].numQubits - 1),
+    to: circuit.id,
+    toQubit: Math.min(2, circuit.numQubits - 1),
+    operation: 'cnot'
+  }));
+
+// Drops links to circuits that no longer exist or to qubits beyond their width
+export const trimLinks = (links: InterCircuitLink[], circuits: CircuitConfig[]) => {
+  const widths = new Map(circuits.map(circuit => [circuit.id, circuit.numQubits]));
+  return links.filter(link =>
+    link.fromQubit < (widths.get(link.from) ?? 0) && link.toQubit < (widths.get(link.to) ?? 0));
+};
+
+// Width of every register the links produce: linked circuits share one joint register
+export const registerWidths = (circuits: CircuitConfig[], links: InterCircuitLink[]) => {
+  const parent = new Map(circuits.map(circuit => [circuit.id, circuit.id]));
+  const find = (id: string): string => parent.get(id) === id ? id : find(parent.get(id)!);
+  trimLinks(links, circuits).forEach(link => parent.set(find(link.from), find(link.to)));
+  const widths = new Map<string, number>();
+  circuits.forEach(circuit => {
+    const root = find(circuit.id);
+    widths.set(root, (widths.get(root) ?? 0) + circuit.numQubits);
+  });
+  return [...widths.values()];
+};
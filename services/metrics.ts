@@ -0,0 +1,182 @@
+import { METRIC_LIMITS, PHYSICAL_CONSTANTS, WORMHOLE_CONFIG } from '../constants';
+import { evaluateExpression } from './expression';
+import type { MetricConfig, MetricFamily, SpacetimePoint, WormholeConfig } from '../types';
+
+// Static spherically symmetric wormholes ds² = -e^{2Φ}dt² + dr²/(1 - b/r) + r²dΩ², with Teo's
+// frame dragging dφ → dφ - ω dt on top. Everything is computed in units of the throat radius b0:
+// x = r/b0, B = b/b0, and proper radial distance l/b0, which is what the `z` of each point measures.
+
+export const METRIC_FAMILIES: Record<MetricFamily, { label: string; description: string }> = {
+  ellis: { label: 'Ellis (drainhole)', description: 'b = b0²/r, Φ = 0: r² = b0² + l², sin marea ni horizonte' },
+  morris_thorne: { label: 'Morris–Thorne', description: 'Funciones de forma b(r) y de corrimiento al rojo Φ(r) elegidas por el usuario' },
+  thin_shell: { label: 'Cáscara delgada', description: 'Dos exteriores de Schwarzschild unidos en r = b0; la materia exótica es una capa en la garganta' },
+  teo: { label: 'Teo (en rotación)', description: 'Morris–Thorne con arrastre de marcos ω = 2J/r³, evaluado en el ecuador' }
+};
+
+// Families whose profile comes from the shape and redshift expressions
+export const usesMetricExpressions = (family: MetricFamily) => family === 'morris_thorne' || family === 'teo';
+
+interface MetricProfile {
+  shape: (x: number) => number;
+  redshift: (x: number) => number;
+  // Dimensionless J/b0²
+  spin: number;
+}
+
+const profileFor = (metric: MetricConfig, b0: number): MetricProfile => {
+  switch (metric.family) {
+    case 'ellis':
+      return { shape: x => 1 / x, redshift: () => 0, spin: 0 };
+    case 'thin_shell':
+      // Schwarzschild exterior, e^{2Φ} = 1 - r_s/r
+      return { shape: () => metric.compactness, redshift: x => 0.5 * Math.log(1 - metric.compactness / x), spin: 0 };
+    case 'morris_thorne':
+    case 'teo':
+      return {
+        shape: x => evaluateExpression(metric.shape, { r: x * b0, b0 }) / b0,
+        redshift: x => evaluateExpression(metric.redshift, { r: x * b0, b0 }),
+        spin: metric.family === 'teo' ? metric.spin : 0
+      };
+  }
+};
+
+const derivative = (f: (x: number) => number, x: number) => {
+  const h = 1e-4 * x;
+  return (f(x + h) - f(x - h)) / (2 * h);
+};
+
+const secondDerivative = (f: (x: number) => number, x: number) => {
+  const h = 1e-3 * x;
+  return (f(x + h) - 2 * f(x) + f(x - h)) / (h * h);
+};
+
+// x at proper distances 0 … lMax from the throat, integrating dl = dx/√(1 - B/x). With
+// x = 1 + u², dl = 2u du/√(1 - B/x) stays finite where 1 - B/x vanishes at the throat.
+const radiusTable = (shape: MetricProfile['shape'], lMax: number) => {
+  const du = 2e-3;
+  const ls = [0];
+  const xs = [1];
+  for (let k = 0; ls[ls.length - 1] < lMax; k++) {
+    if (k > 200000) throw new Error('La garganta no se ensancha: r(l) no alcanza la distancia simulada');
+    const u = (k + 0.5) * du;
+    const x = 1 + u * u;
+    const f = 1 - shape(x) / x;
+    if (!(f > 0)) throw new Error(`b(r) ≥ r en r = ${x.toFixed(4)}·b0`);
+    ls.push(ls[ls.length - 1] + 2 * u * du / Math.sqrt(f));
+    xs.push(1 + ((k + 1) * du) ** 2);
+  }
+  return { ls, xs };
+};
+
+const interpolate = ({ ls, xs }: { ls: number[]; xs: number[] }, l: number) => {
+  let low = 0;
+  let high = ls.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (ls[mid] <= l) low = mid;
+    else high = mid;
+  }
+  const t = (l - ls[low]) / (ls[high] - ls[low] || 1);
+  return xs[low] + t * (xs[high] - xs[low]);
+};
+
+// Orthonormal Einstein tensor components (in units of 1/b0²), the Ricci scalar and the Gaussian
+// curvature of the equatorial slice at x. The frame-dragging terms are for the equator of the
+// zero-angular-momentum frame.
+const curvatureAt = (profile: MetricProfile, x: number) => {
+  const B = profile.shape(x);
+  const dB = derivative(profile.shape, x);
+  const phi = profile.redshift(x);
+  const dPhi = derivative(profile.redshift, x);
+  const d2Phi = secondDerivative(profile.redshift, x);
+  const f = 1 - B / x;
+  const flare = (dB * x - B) / (2 * x * x);
+  const dOmega = -6 * profile.spin / x ** 4;
+  const dragging = 0.25 * f * x * x * dOmega * dOmega * Math.exp(-2 * phi);
+  const G_tt = dB / (x * x) - dragging;
+  const G_rr = -B / x ** 3 + 2 * f * dPhi / x + dragging;
+  const G_static = f * (d2Phi + dPhi * dPhi + dPhi / x) - flare * dPhi - flare / x;
+  const G_thth = G_static - dragging;
+  const G_phph = G_static - 3 * dragging;
+  return {
+    G_tt,
+    ricci: G_tt - G_rr - G_thth - G_phph,
+    gaussian: flare / x
+  };
+};
+
+// Why each invalid metric parameter is rejected; empty when the metric is usable. Expressions
+// are only checked for the families that use them.
+export const metricConfigErrors = (metric: MetricConfig, b0 = WORMHOLE_CONFIG.wormhole_distance) => {
+  const errors: Partial<Record<keyof MetricConfig, string>> = {};
+  if (!Number.isFinite(metric.compactness)) errors.compactness = 'No es un número';
+  else if (metric.compactness < 0 || metric.compactness > METRIC_LIMITS.max_compactness) errors.compactness = `Fuera de [0, ${METRIC_LIMITS.max_compactness}]`;
+  if (!Number.isFinite(metric.spin)) errors.spin = 'No es un número';
+  else if (metric.spin < 0 || metric.spin > METRIC_LIMITS.max_spin) errors.spin = `Fuera de [0, ${METRIC_LIMITS.max_spin}]`;
+  if (!usesMetricExpressions(metric.family)) return errors;
+
+  const { shape, redshift } = profileFor(metric, b0);
+  const samples = Array.from({ length: 200 }, (_, i) => 1 + 0.05 * (i + 1));
+  try {
+    if (Math.abs(shape(1) - 1) > 1e-6) errors.shape = 'b(b0) debe valer b0';
+    else if (!(derivative(shape, 1) < 1 - 1e-6)) errors.shape = 'No se ensancha: hace falta b′(b0) < 1';
+    else if (samples.some(x => !(shape(x) < x))) errors.shape = 'b(r) debe ser menor que r fuera de la garganta';
+  } catch (error) {
+    errors.shape = (error as Error).message;
+  }
+  try {
+    if ([1, ...samples].some(x => !Number.isFinite(redshift(x)))) errors.redshift = 'Φ(r) debe ser finita (sin horizonte)';
+  } catch (error) {
+    errors.redshift = (error as Error).message;
+  }
+  return errors;
+};
+
+// Throat sampled at proper distances z = (i/num_points - 0.5)·10·b0, with the curvature and
+// energy content the metric demands through the Einstein equations
+export const metricSpacetime = (metric: MetricConfig, config: WormholeConfig): SpacetimePoint[] => {
+  const b0 = config.wormhole_distance;
+  const profile = profileFor(metric, b0);
+  const table = radiusTable(profile.shape, 5 + 10 / config.num_points);
+  const zs = Array.from({ length: config.num_points }, (_, i) => (i / config.num_points - 0.5) * 10);
+  const toSI = (G: number) => G / (b0 * b0);
+
+  const points = zs.map(z => {
+    const x = interpolate(table, Math.abs(z));
+    const { G_tt, ricci, gaussian } = curvatureAt(profile, x);
+    // T_tt = G_tt c⁴/(8πG)
+    const energy_density = toSI(G_tt) / PHYSICAL_CONSTANTS.EINSTEIN_CONSTANT;
+    return {
+      z: z * b0,
+      radius: x * b0,
+      curvature: toSI(gaussian),
+      energy_density,
+      einstein_tensor: toSI(G_tt),
+      ricci_scalar: toSI(ricci),
+      stress_energy: energy_density / PHYSICAL_CONSTANTS.C ** 2,
+      lapse: Math.exp(profile.redshift(x))
+    };
+  });
+
+  if (metric.family === 'thin_shell') {
+    // The shell's surface energy σ = -√(1 - r_s/a)/(2πa) and pressure p = (1 - r_s/2a)/(4πa√(1 - r_s/a))
+    // (Visser) spread over the sample nearest the throat; the slice folds there, r′ jumping by 2√(1 - r_s/a)
+    const throat = zs.reduce((best, z, i) => (Math.abs(z) < Math.abs(zs[best]) ? i : best), 0);
+    const width = 10 / config.num_points;
+    const root = Math.sqrt(1 - metric.compactness);
+    const sigma = -root / (2 * Math.PI);
+    const pressure = (1 - metric.compactness / 2) / (4 * Math.PI * root);
+    const point = points[throat];
+    const G_tt = toSI(8 * Math.PI * sigma / width);
+    const energy_density = point.energy_density + G_tt / PHYSICAL_CONSTANTS.EINSTEIN_CONSTANT;
+    points[throat] = {
+      ...point,
+      curvature: point.curvature + toSI(-2 * root / width),
+      energy_density,
+      einstein_tensor: point.einstein_tensor + G_tt,
+      ricci_scalar: point.ricci_scalar + toSI(8 * Math.PI * (sigma - 2 * pressure) / width),
+      stress_energy: energy_density / PHYSICAL_CONSTANTS.C ** 2
+    };
+  }
+  return points;
+};
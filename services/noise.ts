@@ -0,0 +1,53 @@
+import { complex, ZERO } from './complex';
+import type { GateMatrix } from './statevector';
+import type { NoiseChannel, NoiseChannelType, NoiseModel } from '../types';
+
+export const NOISE_CHANNEL_LABELS: Record<NoiseChannelType, string> = {
+  depolarizing: 'Despolarizante',
+  amplitude_damping: 'Amortiguamiento de amplitud',
+  phase_damping: 'Amortiguamiento de fase',
+  readout_error: 'Error de lectura'
+};
+
+export const createNoiseModel = (): NoiseModel => ({ qubit: {}, gate: {} });
+
+const diagonal = (a: number, b: number): GateMatrix => [[complex(a), ZERO], [ZERO, complex(b)]];
+
+// Kraus operators of a single-qubit channel. Readout errors act on classical
+// outcomes rather than on the state, so they have none.
+export const krausOperators = (channel: NoiseChannel): GateMatrix[] => {
+  const p = Math.min(1, Math.max(0, channel.probability));
+  switch (channel.type) {
+    case 'depolarizing': {
+      // ρ → (1 - p)ρ + p·I/2
+      const k = Math.sqrt(p / 4);
+      return [
+        diagonal(Math.sqrt(1 - 3 * p / 4), Math.sqrt(1 - 3 * p / 4)),
+        [[ZERO, complex(k)], [complex(k), ZERO]],
+        [[ZERO, complex(0, -k)], [complex(0, k), ZERO]],
+        diagonal(k, -k)
+      ];
+    }
+    case 'amplitude_damping':
+      return [
+        diagonal(1, Math.sqrt(1 - p)),
+        [[ZERO, complex(Math.sqrt(p))], [ZERO, ZERO]]
+      ];
+    case 'phase_damping':
+      return [
+        diagonal(1, Math.sqrt(1 - p)),
+        diagonal(0, Math.sqrt(p))
+      ];
+    case 'readout_error':
+      return [];
+  }
+};
+
+// Converts a per-second error probability into the probability over a step of length dt
+export const probabilityOverInterval = (probability: number, dt: number) =>
+  1 - Math.pow(1 - Math.min(1, Math.max(0, probability)), dt);
+
+// Flips a measured bit once for every readout channel that fires
+export const applyReadoutError = (bit: number, channels: NoiseChannel[], random: () => number = Math.random) =>
+  channels.reduce((result, channel) =>
+    channel.type === 'readout_error' && random() < channel.probability ? 1 - result : result, bit);
@@ -0,0 +1,332 @@
+import { evaluateExpression, expressionError, expressionParameters } from './expression';
+import { DEFAULT_ROTATION_ANGLE, appendOperation, measurementBit, operationBits, sortTimeline, timelineParameters } from './timeline';
+import type { CircuitConfig, ClassicalCondition, GateName, GateOperation, InterCircuitLink } from '../types';
+
+export type QasmVersion = 2 | 3;
+
+export interface QasmImport {
+  numQubits: number;
+  timeline: GateOperation[];
+  // Statements that were read but have no effect in the simulator (reset, ...)
+  warnings: string[];
+}
+
+type ImportedGate = Omit<GateOperation, 'column'>;
+
+// QASM 3 writes powers as `**`; angle expressions here use `^`
+const toExpression = (source: string) => source.trim().replace(/\*\*/g, '^');
+
+const single = (gate: GateName, fixedAngle?: string) => (params: string[], [q]: number[]): ImportedGate => {
+  const angle = fixedAngle ?? (params[0] ? toExpression(params[0]) : undefined);
+  return { gate, targets: [q], controls: [], ...(angle ? { angle } : {}) };
+};
+
+const controlled = (gate: GateName, unitary?: GateName) => (params: string[], qubits: number[]): ImportedGate => ({
+  gate,
+  controls: qubits.slice(0, -1),
+  targets: qubits.slice(-1),
+  ...(unitary ? { unitary } : {}),
+  ...(params[0] ? { angle: toExpression(params[0]) } : {})
+});
+
+const pair = (gate: GateName) => (_: string[], qubits: number[]): ImportedGate =>
+  ({ gate, targets: qubits, controls: [] });
+
+// cu3 is only understood in the two forms exports write for controlled Rx and Ry
+const cu3 = (params: string[], qubits: number[]): ImportedGate => {
+  const [phi, lambda] = params.slice(1).map(param => evaluateExpression(toExpression(param), {}));
+  const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+  if (close(phi, -Math.PI / 2) && close(lambda, Math.PI / 2)) return controlled('CU', 'Rx')(params, qubits);
+  if (close(phi, 0) && close(lambda, 0)) return controlled('CU', 'Ry')(params, qubits);
+  throw new Error(`cu3(${params.join(', ')}) no corresponde a ninguna puerta del simulador`);
+};
+
+// qelib1.inc / stdgates.inc gates and their simulator counterparts, with their qubit count.
+// s, sdg, tdg and the phase gates map to Rz, which matches them up to a global phase.
+const IMPORTED_GATES: Record<string, { qubits: number; build: (params: string[], qubits: number[]) => ImportedGate }> = {
+  h: { qubits: 1, build: single('H') },
+  x: { qubits: 1, build: single('X') },
+  y: { qubits: 1, build: single('Y') },
+  z: { qubits: 1, build: single('Z') },
+  t: { qubits: 1, build: single('T') },
+  tdg: { qubits: 1, build: single('Rz', '-pi/4') },
+  s: { qubits: 1, build: single('Rz', 'pi/2') },
+  sdg: { qubits: 1, build: single('Rz', '-pi/2') },
+  rx: { qubits: 1, build: single('Rx') },
+  ry: { qubits: 1, build: single('Ry') },
+  rz: { qubits: 1, build: single('Rz') },
+  p: { qubits: 1, build: single('Rz') },
+  phase: { qubits: 1, build: single('Rz') },
+  u1: { qubits: 1, build: single('Rz') },
+  cx: { qubits: 2, build: controlled('CNOT') },
+  CX: { qubits: 2, build: controlled('CNOT') },
+  cz: { qubits: 2, build: controlled('CZ') },
+  cp: { qubits: 2, build: controlled('CP') },
+  cphase: { qubits: 2, build: controlled('CP') },
+  cu1: { qubits: 2, build: controlled('CP') },
+  cy: { qubits: 2, build: controlled('CU', 'Y') },
+  ch: { qubits: 2, build: controlled('CU', 'H') },
+  crx: { qubits: 2, build: controlled('CU', 'Rx') },
+  cry: { qubits: 2, build: controlled('CU', 'Ry') },
+  crz: { qubits: 2, build: controlled('CU', 'Rz') },
+  swap: { qubits: 2, build: pair('SWAP') },
+  iswap: { qubits: 2, build: pair('iSWAP') },
+  cu3: { qubits: 2, build: cu3 },
+  ccx: { qubits: 3, build: controlled('CCNOT') }
+};
+
+// Declarations and no-ops skipped silently, and statements skipped with a warning
+const SKIPPED_STATEMENTS = ['barrier', 'id', 'input', 'output'];
+const UNSUPPORTED_STATEMENTS = ['reset'];
+
+// Splits on commas outside parentheses
+const splitTopLevel = (source: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of source) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== '') parts.push(current.trim());
+  return parts;
+};
+
+type Register = { offset: number; size: number };
+
+// Reads an OpenQASM 2.0 or 3.0 program into a single circuit. Every quantum register is
+// concatenated in declaration order, and so is every classical one into the circuit's bits;
+// gates are placed as early as their qubits and bits allow.
+export const parseQasm = (source: string): QasmImport => {
+  const warnings: string[] = [];
+  const registers = new Map<string, Register>();
+  const classicalRegisters = new Map<string, Register>();
+  let numQubits = 0;
+  let numBits = 0;
+  let timeline: GateOperation[] = [];
+
+  const text = source
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\/\/.*$/gm, '')
+    // Gate definitions are skipped; only the built-in gates (and iswap, which exports define) are understood
+    .replace(/\bgate\s+[^{]*\{[^}]*\}/g, '');
+
+  const resolveIn = (declared: Map<string, Register>) => (operand: string, statement: string): number[] => {
+    const match = operand.trim().match(/^([A-Za-z_]\w*)\s*(?:\[\s*(\d+)\s*\])?$/);
+    const register = match && declared.get(match[1]);
+    if (!match || !register) throw new Error(`Registro desconocido "${operand}" en "${statement}"`);
+    if (match[2] === undefined) return Array.from({ length: register.size }, (_, i) => register.offset + i);
+    const index = parseInt(match[2], 10);
+    if (index >= register.size) throw new Error(`Índice fuera de rango "${operand}" en "${statement}"`);
+    return [register.offset + index];
+  };
+  const resolveOperand = resolveIn(registers);
+  const resolveBits = resolveIn(classicalRegisters);
+
+  // `measure q -> c` (QASM 2) or `c = measure q` (QASM 3), whole registers measured bit by bit
+  const measure = (qubitOperand: string, bitOperand: string, statement: string, condition?: ClassicalCondition) => {
+    const qubits = resolveOperand(qubitOperand, statement);
+    const bits = resolveBits(bitOperand, statement);
+    if (qubits.length !== bits.length) throw new Error(`Registros de distinto tamaño en "${statement}"`);
+    qubits.forEach((q, i) => {
+      timeline = appendOperation(timeline, {
+        gate: 'M', targets: [q], controls: [],
+        ...(bits[i] !== q ? { bit: bits[i] } : {}),
+        ...(condition ? { condition } : {})
+      });
+    });
+  };
+
+  // `if(c==1)` on a one-bit register (QASM 2) or `if (c[j] == 1)` / `if (c[j])` (QASM 3)
+  const parseCondition = (source: string, statement: string): ClassicalCondition => {
+    const match = source.match(/^([^=!]+?)\s*(?:==\s*(\d+))?$/);
+    if (!match) throw new Error(`Condición no soportada en "${statement}"`);
+    const bits = resolveBits(match[1], statement);
+    const value = match[2] === undefined ? 1 : parseInt(match[2], 10);
+    if (bits.length !== 1 || value > 1) throw new Error(`Solo se admiten condiciones sobre un único bit en "${statement}"`);
+    return { bit: bits[0], value: value as 0 | 1 };
+  };
+
+  const applyStatement = (statement: string, condition?: ClassicalCondition) => {
+    const conditional = statement.match(/^if\s*\(([^)]*)\)\s*(.+)$/);
+    if (conditional) {
+      if (condition) throw new Error(`Condiciones anidadas no soportadas en "${statement}"`);
+      applyStatement(conditional[2], parseCondition(conditional[1].trim(), statement));
+      return;
+    }
+
+    const measurement = statement.match(/^measure (.+?)\s*->\s*(.+)$/);
+    if (measurement) return measure(measurement[1], measurement[2], statement, condition);
+    const assignment = statement.match(/^(.+?)\s*=\s*measure (.+)$/);
+    if (assignment) return measure(assignment[2], assignment[1], statement, condition);
+
+    const keyword = statement.match(/^[A-Za-z_]\w*/)?.[0] ?? '';
+    if (UNSUPPORTED_STATEMENTS.includes(keyword)) {
+      warnings.push(`Ignorado: ${statement}`);
+      return;
+    }
+    if (SKIPPED_STATEMENTS.includes(keyword)) return;
+
+    const definition = IMPORTED_GATES[keyword];
+    if (!definition) throw new Error(`Instrucción no soportada: "${statement}"`);
+
+    let rest = statement.slice(keyword.length).trim();
+    let params: string[] = [];
+    if (rest.startsWith('(')) {
+      let depth = 0;
+      let end = 0;
+      for (; end < rest.length; end++) {
+        if (rest[end] === '(') depth++;
+        if (rest[end] === ')' && --depth === 0) break;
+      }
+      params = splitTopLevel(rest.slice(1, end));
+      rest = rest.slice(end + 1).trim();
+    }
+    params.forEach(param => {
+      const error = expressionError(toExpression(param));
+      if (error) throw new Error(`Ángulo inválido en "${statement}": ${error}`);
+    });
+
+    const operands = splitTopLevel(rest).map(operand => resolveOperand(operand, statement));
+    if (operands.length !== definition.qubits) throw new Error(`"${keyword}" espera ${definition.qubits} qubits en "${statement}"`);
+    // A whole register as operand applies the gate to each of its qubits in turn
+    const repeats = Math.max(...operands.map(qubits => qubits.length));
+    if (operands.some(qubits => qubits.length !== 1 && qubits.length !== repeats)) {
+      throw new Error(`Registros de distinto tamaño en "${statement}"`);
+    }
+    for (let i = 0; i < repeats; i++) {
+      const qubits = operands.map(group => group.length === 1 ? group[0] : group[i]);
+      if (new Set(qubits).size !== qubits.length) throw new Error(`Qubits repetidos en "${statement}"`);
+      timeline = appendOperation(timeline, { ...definition.build(params, qubits), ...(condition ? { condition } : {}) });
+    }
+  };
+
+  text.split(';').map(statement => statement.trim().replace(/\s+/g, ' ')).filter(Boolean).forEach(statement => {
+    if (/^OPENQASM\b/.test(statement) || /^include\b/.test(statement)) return;
+
+    const qreg = statement.match(/^qreg ([A-Za-z_]\w*)\s*\[\s*(\d+)\s*\]$/) ?? statement.match(/^qubit\s*(?:\[\s*(\d+)\s*\])?\s*([A-Za-z_]\w*)$/);
+    if (qreg) {
+      const [name, size] = statement.startsWith('qreg') ? [qreg[1], parseInt(qreg[2], 10)] : [qreg[2], qreg[1] ? parseInt(qreg[1], 10) : 1];
+      registers.set(name, { offset: numQubits, size });
+      numQubits += size;
+      return;
+    }
+
+    const creg = statement.match(/^creg ([A-Za-z_]\w*)\s*\[\s*(\d+)\s*\]$/) ?? statement.match(/^bit\s*(?:\[\s*(\d+)\s*\])?\s*([A-Za-z_]\w*)$/);
+    if (creg) {
+      const [name, size] = statement.startsWith('creg') ? [creg[1], parseInt(creg[2], 10)] : [creg[2], creg[1] ? parseInt(creg[1], 10) : 1];
+      classicalRegisters.set(name, { offset: numBits, size });
+      numBits += size;
+      return;
+    }
+
+    applyStatement(statement);
+  });
+
+  if (numQubits === 0) throw new Error('El programa no declara ningún registro cuántico');
+  return { numQubits, timeline, warnings };
+};
+
+// SWAP·CZ·(S⊗S) written with qelib1/stdgates gates
+const ISWAP_DEFINITION = 'gate iswap a, b { s a; s b; h a; cx a, b; cx b, a; h b; }';
+
+// Exports every circuit as a register named after it (`qreg A[5]`), followed by the
+// inter-circuit links. QASM 2 has no free parameters, so their bound values are inlined.
+// Classical bits become `bit[n] c_A` in QASM 3; QASM 2 can only condition on a whole
+// register, so there every bit gets its own one-bit register `c_A_0`, `c_A_1`, ...
+export const exportQasm = (circuits: CircuitConfig[], links: InterCircuitLink[], parameters: Record<string, number>, version: QasmVersion) => {
+  const usedParameters = [...new Set(circuits.flatMap(circuit => timelineParameters(circuit.timeline)))];
+
+  const angle = (source: string) => {
+    if (version === 3) return source.replace(/\^/g, '**');
+    if (expressionParameters(source).length === 0) return source;
+    return String(evaluateExpression(source, parameters));
+  };
+
+  const bit = (id: string, b: number) => version === 3 ? `c_${id}[${b}]` : `c_${id}_${b}[0]`;
+  const classicalBitCount = (circuit: CircuitConfig) =>
+    Math.max(0, ...circuit.timeline.flatMap(op => operationBits(op).map(b => b + 1)));
+
+  const conditioned = (id: string, op: GateOperation) => {
+    const statement = operation(id, op);
+    if (!op.condition || statement.startsWith('//')) return statement;
+    const { bit: b, value } = op.condition;
+    return version === 3 ? `if (${bit(id, b)} == ${value}) ${statement}` : `if(c_${id}_${b}==${value}) ${statement}`;
+  };
+
+  const operation = (id: string, op: GateOperation) => {
+    const q = (idx: number) => `${id}[${idx}]`;
+    const theta = angle(op.angle ?? DEFAULT_ROTATION_ANGLE);
+    const [target] = op.targets;
+    const control = op.controls[0];
+    switch (op.gate) {
+      case 'M':
+        return version === 3 ? `${bit(id, measurementBit(op))} = measure ${q(target)};` : `measure ${q(target)} -> ${bit(id, measurementBit(op))};`;
+      case 'H': case 'X': case 'Y': case 'Z': case 'T':
+        return `${op.gate.toLowerCase()} ${q(target)};`;
+      case 'Rx': case 'Ry': case 'Rz':
+        return `${op.gate.toLowerCase()}(${theta}) ${q(target)};`;
+      case 'CNOT': return `cx ${q(control)}, ${q(target)};`;
+      case 'CZ': return `cz ${q(control)}, ${q(target)};`;
+      case 'CP': return `${version === 3 ? 'cp' : 'cu1'}(${theta}) ${q(control)}, ${q(target)};`;
+      case 'SWAP': return `swap ${q(op.targets[0])}, ${q(op.targets[1])};`;
+      case 'iSWAP': return `iswap ${q(op.targets[0])}, ${q(op.targets[1])};`;
+      case 'CCNOT': return `ccx ${q(op.controls[0])}, ${q(op.controls[1])}, ${q(target)};`;
+      case 'CU': {
+        const pairArgs = `${q(control)}, ${q(target)}`;
+        switch (op.unitary ?? 'X') {
+          case 'X': return `cx ${pairArgs};`;
+          case 'Y': return `cy ${pairArgs};`;
+          case 'Z': return `cz ${pairArgs};`;
+          case 'H': return `ch ${pairArgs};`;
+          case 'T': return `${version === 3 ? 'cp' : 'cu1'}(pi/4) ${pairArgs};`;
+          case 'Rz': return `crz(${theta}) ${pairArgs};`;
+          // qelib1.inc has no crx/cry; U3(θ, -π/2, π/2) = Rx(θ) and U3(θ, 0, 0) = Ry(θ)
+          case 'Rx': return version === 3 ? `crx(${theta}) ${pairArgs};` : `cu3(${theta}, -pi/2, pi/2) ${pairArgs};`;
+          case 'Ry': return version === 3 ? `cry(${theta}) ${pairArgs};` : `cu3(${theta}, 0, 0) ${pairArgs};`;
+          default: return `// C-${op.unitary} no tiene equivalente en OpenQASM`;
+        }
+      }
+      default:
+        return `// ${op.gate} no tiene equivalente en OpenQASM`;
+    }
+  };
+
+  const linkOperations = (link: InterCircuitLink) => {
+    const from = `${link.from}[${link.fromQubit}]`;
+    const to = `${link.to}[${link.toQubit}]`;
+    switch (link.operation) {
+      case 'bell': return [`h ${from};`, `cx ${from}, ${to};`];
+      case 'cnot': return [`cx ${from}, ${to};`];
+      case 'cz': return [`cz ${from}, ${to};`];
+    }
+  };
+
+  const usesIswap = circuits.some(circuit => circuit.timeline.some(op => op.gate === 'iSWAP'));
+  const lines = version === 3
+    ? ['OPENQASM 3.0;', 'include "stdgates.inc";', ...usedParameters.map(name => `input float[64] ${name};`)]
+    : ['OPENQASM 2.0;', 'include "qelib1.inc";'];
+  if (usesIswap) lines.push(ISWAP_DEFINITION);
+  circuits.forEach(circuit => lines.push(version === 3 ? `qubit[${circuit.numQubits}] ${circuit.id};` : `qreg ${circuit.id}[${circuit.numQubits}];`));
+  circuits.forEach(circuit => {
+    const bits = classicalBitCount(circuit);
+    if (bits === 0) return;
+    if (version === 3) lines.push(`bit[${bits}] c_${circuit.id};`);
+    else lines.push(...Array.from({ length: bits }, (_, b) => `creg c_${circuit.id}_${b}[1];`));
+  });
+  circuits.forEach(circuit => {
+    lines.push('', `// Circuit ${circuit.id}`);
+    sortTimeline(circuit.timeline).forEach(op => lines.push(conditioned(circuit.id, op)));
+  });
+  if (links.length > 0) {
+    lines.push('', '// Inter-circuit links');
+    links.forEach(link => lines.push(...linkOperations(link)));
+  }
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,21 @@
+// Uniform [0, 1) generator, a drop-in replacement for Math.random
+export type Rng = () => number;
+
+// mulberry32: small, fast and fully determined by its 32-bit seed
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Mixed into the run's seed for the generator of shot sampling, so taking shots does not advance
+// the engine's stream and change the evolution and measurements that follow
+export const SHOT_STREAM = 0x9E3779B9;
+
+// Fresh 32-bit seed for a new session
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
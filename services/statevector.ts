@@ -0,0 +1,242 @@
+import type { Complex, GateName } from '../types';
+import { complex, fromPolar, ONE, ZERO } from './complex';
+
+// Dense 2^n statevector. Qubit k maps to bit k of the basis index (little-endian),
+// so basis state |q_{n-1} ... q_1 q_0⟩ lives at index sum(q_k * 2^k).
+export type GateMatrix = [[Complex, Complex], [Complex, Complex]];
+
+// Operations QuantumCircuit needs from its backing register, pure or mixed
+export interface QuantumRegister {
+  numQubits: number;
+  applySingleQubitGate(target: number, m: GateMatrix): void;
+  applyControlledGate(controls: number[], target: number, m: GateMatrix): void;
+  swap(a: number, b: number): void;
+  coherence(qubit: number): Complex;
+  probabilities(): Float64Array;
+  probabilityOfOne(qubit: number): number;
+  probabilityAllOnes(qubits: number[]): number;
+  measure(qubits: number[], random?: () => number): number[];
+}
+
+// Draws a basis index from a probability distribution
+export const sampleIndex = (probs: ArrayLike<number>, random: () => number = Math.random) => {
+  let r = random();
+  for (let i = 0; i < probs.length; i++) {
+    r -= probs[i];
+    if (r < 0) return i;
+  }
+  return probs.length - 1;
+};
+
+// Draws `shots` basis indices from a register's distribution without collapsing it
+export const sampleShots = (register: QuantumRegister, shots: number, random: () => number = Math.random) => {
+  const probs = register.probabilities();
+  const cumulative = new Float64Array(probs.length);
+  probs.reduce((sum, p, i) => (cumulative[i] = sum + p), 0);
+  const total = cumulative[cumulative.length - 1];
+  return Array.from({ length: shots }, () => {
+    const r = random() * total;
+    let lo = 0;
+    let hi = cumulative.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] > r) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  });
+};
+
+export class StateVector implements QuantumRegister {
+  numQubits: number;
+  re: Float64Array;
+  im: Float64Array;
+
+  constructor(numQubits: number) {
+    this.numQubits = numQubits;
+    this.re = new Float64Array(1 << numQubits);
+    this.im = new Float64Array(1 << numQubits);
+    this.re[0] = 1;
+  }
+
+  get dimension() {
+    return this.re.length;
+  }
+
+  // |b⟩ ⊗ |a⟩: the qubits of `a` keep their indices, those of `b` are shifted by a.numQubits
+  static tensor(a: StateVector, b: StateVector): StateVector {
+    const joint = new StateVector(a.numQubits + b.numQubits);
+    joint.re[0] = 0;
+    for (let j = 0; j < b.dimension; j++) {
+      for (let i = 0; i < a.dimension; i++) {
+        const idx = i | (j << a.numQubits);
+        joint.re[idx] = a.re[i] * b.re[j] - a.im[i] * b.im[j];
+        joint.im[idx] = a.re[i] * b.im[j] + a.im[i] * b.re[j];
+      }
+    }
+    return joint;
+  }
+
+  clone() {
+    const copy = new StateVector(this.numQubits);
+    copy.re.set(this.re);
+    copy.im.set(this.im);
+    return copy;
+  }
+
+  reset() {
+    this.re.fill(0);
+    this.im.fill(0);
+    this.re[0] = 1;
+  }
+
+  applySingleQubitGate(target: number, m: GateMatrix) {
+    this.applyControlledGate([], target, m);
+  }
+
+  // Applies `m` to `target` on the subspace where every control qubit is |1⟩
+  applyControlledGate(controls: number[], target: number, m: GateMatrix) {
+    const targetMask = 1 << target;
+    const controlMask = controls.reduce((mask, c) => mask | (1 << c), 0);
+    for (let i = 0; i < this.dimension; i++) {
+      if (i & targetMask) continue;
+      if ((i & controlMask) !== controlMask) continue;
+      const j = i | targetMask;
+      const aRe = this.re[i], aIm = this.im[i];
+      const bRe = this.re[j], bIm = this.im[j];
+      this.re[i] = m[0][0].re * aRe - m[0][0].im * aIm + m[0][1].re * bRe - m[0][1].im * bIm;
+      this.im[i] = m[0][0].re * aIm + m[0][0].im * aRe + m[0][1].re * bIm + m[0][1].im * bRe;
+      this.re[j] = m[1][0].re * aRe - m[1][0].im * aIm + m[1][1].re * bRe - m[1][1].im * bIm;
+      this.im[j] = m[1][0].re * aIm + m[1][0].im * aRe + m[1][1].re * bIm + m[1][1].im * bRe;
+    }
+  }
+
+  swap(a: number, b: number) {
+    if (a === b) return;
+    const maskA = 1 << a;
+    const maskB = 1 << b;
+    for (let i = 0; i < this.dimension; i++) {
+      // Visit each |..1..0..⟩ / |..0..1..⟩ pair once, from the side where a=1, b=0
+      if ((i & maskA) && !(i & maskB)) {
+        const j = (i & ~maskA) | maskB;
+        [this.re[i], this.re[j]] = [this.re[j], this.re[i]];
+        [this.im[i], this.im[j]] = [this.im[j], this.im[i]];
+      }
+    }
+  }
+
+  amplitude(index: number): Complex {
+    return complex(this.re[index], this.im[index]);
+  }
+
+  // ⟨1|ρ|0⟩ of the reduced single-qubit state, i.e. sum over the rest of ψ(..1..)·ψ*(..0..)
+  coherence(qubit: number): Complex {
+    const mask = 1 << qubit;
+    let re = 0, im = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      if (i & mask) continue;
+      const j = i | mask;
+      re += this.re[j] * this.re[i] + this.im[j] * this.im[i];
+      im += this.im[j] * this.re[i] - this.re[j] * this.im[i];
+    }
+    return complex(re, im);
+  }
+
+  probabilities() {
+    const probs = new Float64Array(this.dimension);
+    for (let i = 0; i < this.dimension; i++) {
+      probs[i] = this.re[i] ** 2 + this.im[i] ** 2;
+    }
+    return probs;
+  }
+
+  probabilityOfOne(qubit: number) {
+    const mask = 1 << qubit;
+    let p = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      if (i & mask) p += this.re[i] ** 2 + this.im[i] ** 2;
+    }
+    return p;
+  }
+
+  // Probability that every listed qubit reads |1⟩
+  probabilityAllOnes(qubits: number[]) {
+    const mask = qubits.reduce((m, q) => m | (1 << q), 0);
+    let p = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      if ((i & mask) === mask) p += this.re[i] ** 2 + this.im[i] ** 2;
+    }
+    return p;
+  }
+
+  // Samples the joint outcome of `qubits` and collapses the state onto it
+  measure(qubits: number[], random: () => number = Math.random): number[] {
+    const probs = this.probabilities();
+    const sampled = sampleIndex(probs, random);
+    const results = qubits.map(q => (sampled >> q) & 1);
+    const mask = qubits.reduce((m, q) => m | (1 << q), 0);
+    const pattern = sampled & mask;
+    let norm = 0;
+    for (let i = 0; i < this.dimension; i++) {
+      if ((i & mask) === pattern) {
+        norm += probs[i];
+      } else {
+        this.re[i] = 0;
+        this.im[i] = 0;
+      }
+    }
+    const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+    for (let i = 0; i < this.dimension; i++) {
+      this.re[i] *= scale;
+      this.im[i] *= scale;
+    }
+    return results;
+  }
+}
+
+const SQRT1_2 = complex(Math.SQRT1_2);
+
+export const GATES = {
+  H: [[SQRT1_2, SQRT1_2], [SQRT1_2, complex(-Math.SQRT1_2)]] as GateMatrix,
+  X: [[ZERO, ONE], [ONE, ZERO]] as GateMatrix,
+  Y: [[ZERO, complex(0, -1)], [complex(0, 1), ZERO]] as GateMatrix,
+  Z: [[ONE, ZERO], [ZERO, complex(-1)]] as GateMatrix,
+  S: [[ONE, ZERO], [ZERO, complex(0, 1)]] as GateMatrix,
+  T: [[ONE, ZERO], [ZERO, fromPolar(1, Math.PI / 4)]] as GateMatrix,
+};
+
+// diag(1, e^{iφ})
+export const phaseGate = (phi: number): GateMatrix => [[ONE, ZERO], [ZERO, fromPolar(1, phi)]];
+
+// exp(-iθX/2)
+export const rotationX = (theta: number): GateMatrix => {
+  const c = Math.cos(theta / 2), s = Math.sin(theta / 2);
+  return [[complex(c), complex(0, -s)], [complex(0, -s), complex(c)]];
+};
+
+// exp(-iθY/2)
+export const rotationY = (theta: number): GateMatrix => {
+  const c = Math.cos(theta / 2), s = Math.sin(theta / 2);
+  return [[complex(c), complex(-s)], [complex(s), complex(c)]];
+};
+
+// exp(-iθZ/2)
+export const rotationZ = (theta: number): GateMatrix => [
+  [fromPolar(1, -theta / 2), ZERO],
+  [ZERO, fromPolar(1, theta / 2)]
+];
+
+// Matrix of a named single-qubit gate; `theta` only matters for the rotations
+export const singleQubitGate = (gate: GateName, theta = Math.PI / 4): GateMatrix | null => {
+  switch (gate) {
+    case 'H': return GATES.H;
+    case 'X': return GATES.X;
+    case 'Y': return GATES.Y;
+    case 'Z': return GATES.Z;
+    case 'T': return GATES.T;
+    case 'Rx': return rotationX(theta);
+    case 'Ry': return rotationY(theta);
+    case 'Rz': return rotationZ(theta);
+    default: return null;
+  }
+};
@@ -0,0 +1,124 @@
+import { TELEPORTATION_CONFIG } from '../constants';
+import { createRng } from './random';
+import { GATES, StateVector, rotationX, rotationZ } from './statevector';
+import type { TeleportationConfig, TeleportationPoint, TeleportationResult } from '../types';
+
+// Traversable-wormhole teleportation (Gao–Jafferis–Wall / Brown et al.). Two copies L and R
+// of an n-qubit system start maximally entangled, the infinite-temperature thermofield double.
+// A message qubit Q, itself entangled with a reference P, is swapped into L at time -t and
+// scrambled; a weak coupling e^{iμV} between L and R then lets it refocus in R at time +t.
+// Register layout: P = 0, Q = 1, L = 2..n+1, R = n+2..2n+1.
+
+interface Hamiltonian {
+  // All-to-all ZZ couplings J_ij (i < j), SYK-style random and of zero mean
+  couplings: { i: number; j: number; J: number }[];
+  // Transverse and longitudinal fields, which make the dynamics chaotic
+  fieldX: number[];
+  fieldZ: number[];
+}
+
+const randomHamiltonian = (n: number, seed: number): Hamiltonian => {
+  const random = createRng(seed);
+  const couplings = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) couplings.push({ i, j, J: (2 * random() - 1) * 2 / Math.sqrt(n) });
+  }
+  return {
+    couplings,
+    fieldX: Array.from({ length: n }, () => 0.8 + 0.4 * random()),
+    fieldZ: Array.from({ length: n }, () => 0.3 + 0.4 * random())
+  };
+};
+
+// e^{-iθ Z_a Z_b / 2}
+const zzRotation = (state: StateVector, a: number, b: number, theta: number) => {
+  state.applyControlledGate([a], b, GATES.X);
+  state.applySingleQubitGate(b, rotationZ(theta));
+  state.applyControlledGate([a], b, GATES.X);
+};
+
+// One first-order Trotter step of e^{-iH dt} on `qubits`. Every factor is a symmetric matrix, so
+// reversing their order transposes the step; negating the angles as well gives its adjoint, and
+// running `steps` of those undoes the forward evolution exactly.
+const trotterStep = (state: StateVector, qubits: number[], hamiltonian: Hamiltonian, dt: number, sign: number, reversed: boolean) => {
+  const factors = [
+    ...hamiltonian.couplings.map(({ i, j, J }) => () => zzRotation(state, qubits[i], qubits[j], sign * 2 * J * dt)),
+    ...qubits.map((q, k) => () => state.applySingleQubitGate(q, rotationZ(sign * 2 * hamiltonian.fieldZ[k] * dt))),
+    ...qubits.map((q, k) => () => state.applySingleQubitGate(q, rotationX(sign * 2 * hamiltonian.fieldX[k] * dt)))
+  ];
+  (reversed ? factors.reverse() : factors).forEach(apply => apply());
+};
+
+// Trotterized U = e^{-iH time} (its adjoint for negative times), or with `transpose` U^T
+const evolve = (state: StateVector, qubits: number[], hamiltonian: Hamiltonian, time: number, steps: number, transpose = false) => {
+  if (time === 0) return;
+  const dt = Math.abs(time) / steps;
+  for (let s = 0; s < steps; s++) trotterStep(state, qubits, hamiltonian, dt, time < 0 ? -1 : 1, (time < 0) !== transpose);
+};
+
+// ⟨Φ+|ρ|Φ+⟩ for qubits a and b, where |Φ+⟩ = (|00⟩ + |11⟩)/√2
+const bellFidelity = (state: StateVector, a: number, b: number) => {
+  const maskA = 1 << a;
+  const maskB = 1 << b;
+  let fidelity = 0;
+  for (let i = 0; i < state.dimension; i++) {
+    if (i & (maskA | maskB)) continue;
+    // Amplitude of Φ+ for this configuration of the remaining qubits
+    const j = i | maskA | maskB;
+    const re = (state.re[i] + state.re[j]) / Math.SQRT2;
+    const im = (state.im[i] + state.im[j]) / Math.SQRT2;
+    fidelity += re * re + im * im;
+  }
+  return fidelity;
+};
+
+// Runs the protocol once and returns the fidelity of the teleported message, i.e. the
+// overlap of (P, output qubit of R) with the Bell pair that (P, Q) started in
+export const teleportationFidelity = (config: TeleportationConfig, coupling: number, time: number, hamiltonian = randomHamiltonian(config.numQubits, config.seed)) => {
+  const n = config.numQubits;
+  const left = Array.from({ length: n }, (_, k) => 2 + k);
+  const right = Array.from({ length: n }, (_, k) => 2 + n + k);
+  const steps = Math.max(1, Math.ceil(Math.abs(time) / config.timeStep));
+  const state = new StateVector(2 * n + 2);
+
+  state.applySingleQubitGate(0, GATES.H);
+  state.applyControlledGate([0], 1, GATES.X);
+  left.forEach((l, k) => {
+    state.applySingleQubitGate(l, GATES.H);
+    state.applyControlledGate([l], right[k], GATES.X);
+  });
+
+  // Scramble the message into L: back to -t, insert, forward to 0
+  evolve(state, left, hamiltonian, -time, steps);
+  state.swap(1, left[0]);
+  evolve(state, left, hamiltonian, time, steps);
+
+  // e^{iμV} with V = (1/(n-1)) Σ Z_L Z_R over every pair but the message's
+  for (let k = 1; k < n; k++) zzRotation(state, left[k], right[k], -2 * coupling / (n - 1));
+
+  // U^T on R refocuses the message into its first qubit, up to a Y. H is real, so the exact
+  // evolution is symmetric, but its Trotter product is not: the factors run in reverse order
+  evolve(state, right, hamiltonian, time, steps, true);
+  state.applySingleQubitGate(right[0], GATES.Y);
+
+  return bellFidelity(state, 0, right[0]);
+};
+
+const sweep = (from: number, to: number, points: number) =>
+  Array.from({ length: points }, (_, k) => from + (to - from) * k / (points - 1));
+
+// Fidelity at the configured coupling and time, plus its dependence on each of them
+export const runTeleportationProtocol = (config: TeleportationConfig = TELEPORTATION_CONFIG): TeleportationResult => {
+  const hamiltonian = randomHamiltonian(config.numQubits, config.seed);
+  const run = (coupling: number, time: number): TeleportationPoint =>
+    ({ coupling, time, fidelity: teleportationFidelity(config, coupling, time, hamiltonian) });
+
+  return {
+    config,
+    fidelity: run(config.coupling, config.time).fidelity,
+    // Without the coupling the message never reaches R
+    baseline: run(0, config.time).fidelity,
+    coupling_sweep: sweep(-config.maxCoupling, config.maxCoupling, config.sweepPoints).map(mu => run(mu, config.time)),
+    time_sweep: sweep(0, config.maxTime, config.sweepPoints).map(t => run(config.coupling, t))
+  };
+};
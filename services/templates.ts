@@ -0,0 +1,133 @@
+import { TEMPLATE_LIMITS } from '../constants';
+import { ROTATION_GATES, SINGLE_QUBIT_GATES, appendOperation } from './timeline';
+import type { Rng } from './random';
+import type { CircuitTemplateId, CircuitTemplateOptions, GateName, GateOperation } from '../types';
+
+export interface CircuitTemplate {
+  id: CircuitTemplateId;
+  label: string;
+  description: string;
+  minQubits: number;
+  maxQubits?: number;
+}
+
+export const CIRCUIT_TEMPLATES: CircuitTemplate[] = [
+  { id: 'bell', label: 'Pares de Bell', description: 'H y CNOT sobre cada par de qubits vecinos', minQubits: 2 },
+  { id: 'ghz', label: 'GHZ', description: '(|0…0⟩ + |1…1⟩)/√2 con H y una cadena de CNOT', minQubits: 2 },
+  { id: 'w', label: 'Estado W', description: 'Superposición uniforme de los estados con un único 1', minQubits: 2 },
+  { id: 'qft', label: 'QFT', description: 'Transformada cuántica de Fourier con H, CP e intercambios finales', minQubits: 1 },
+  { id: 'iqft', label: 'QFT inversa', description: 'La QFT deshecha puerta a puerta, con las fases negadas', minQubits: 1 },
+  { id: 'grover', label: 'Grover', description: 'Búsqueda del estado marcado con ⌊π√N/4⌋ iteraciones de oráculo y difusión', minQubits: 2, maxQubits: TEMPLATE_LIMITS.grover_qubits },
+  { id: 'random', label: 'Aleatorio', description: 'Capas de puertas de un qubit al azar seguidas de CNOT/CZ en ladrillo', minQubits: 1 }
+];
+
+type Operation = Omit<GateOperation, 'column'>;
+
+const op = (gate: GateName, targets: number[], controls: number[] = [], extra: Partial<Operation> = {}): Operation =>
+  ({ gate, targets, controls, ...extra });
+
+const qubitRange = (numQubits: number) => Array.from({ length: numQubits }, (_, q) => q);
+
+// Adjacent pairs (0,1), (2,3), ... each prepared in |Φ+⟩
+const bellPairs = (numQubits: number) =>
+  qubitRange(Math.floor(numQubits / 2)).flatMap(k => [op('H', [2 * k]), op('CNOT', [2 * k + 1], [2 * k])]);
+
+const ghz = (numQubits: number) => [
+  op('H', [0]),
+  ...qubitRange(numQubits - 1).map(q => op('CNOT', [q + 1], [q]))
+];
+
+// Starting from |1⟩ on qubit 0, each step keeps an amplitude √(1/(n-k)) on qubit k and hands
+// the rest on to qubit k+1
+const wState = (numQubits: number) => [
+  op('X', [0]),
+  ...qubitRange(numQubits - 1).flatMap(k => [
+    op('CU', [k + 1], [k], { unitary: 'Ry', angle: String(2 * Math.acos(Math.sqrt(1 / (numQubits - k)))) }),
+    op('CNOT', [k], [k + 1])
+  ])
+];
+
+// Little-endian QFT: the most significant qubit first, then swaps to restore bit order
+const qft = (numQubits: number) => [
+  ...qubitRange(numQubits).reverse().flatMap(j => [
+    op('H', [j]),
+    ...qubitRange(j).reverse().map(k => op('CP', [j], [k], { angle: `pi/${2 ** (j - k)}` }))
+  ]),
+  ...qubitRange(Math.floor(numQubits / 2)).map(q => op('SWAP', [q, numQubits - 1 - q]))
+];
+
+const inverseQft = (numQubits: number) => [
+  ...qubitRange(Math.floor(numQubits / 2)).map(q => op('SWAP', [q, numQubits - 1 - q])),
+  ...qubitRange(numQubits).flatMap(j => [
+    ...qubitRange(j).map(k => op('CP', [j], [k], { angle: `-pi/${2 ** (j - k)}` })),
+    op('H', [j])
+  ])
+];
+
+// Z conditioned on every qubit being 1. Beyond CCNOT the phase is split over parities:
+// x1⋯xn = Σ_T (-1)^{|T|-1} (⊕_T x) / 2^{n-1}, each parity gathered with CNOTs and phased by Rz
+// (a phase gate up to a global phase)
+const multiControlledZ = (qubits: number[]): Operation[] => {
+  const n = qubits.length;
+  if (n === 1) return [op('Z', qubits)];
+  if (n === 2) return [op('CZ', [qubits[1]], [qubits[0]])];
+  const target = qubits[n - 1];
+  if (n === 3) return [op('H', [target]), op('CCNOT', [target], qubits.slice(0, 2)), op('H', [target])];
+  return qubitRange((1 << n) - 1).flatMap(k => {
+    const subset = qubits.filter((_, i) => ((k + 1) >> i) & 1);
+    const last = subset[subset.length - 1];
+    const chain = subset.slice(0, -1).map(q => op('CNOT', [last], [q]));
+    const sign = subset.length % 2 === 1 ? '' : '-';
+    return [...chain, op('Rz', [last], [], { angle: `${sign}pi/${2 ** (n - 1)}` }), ...[...chain].reverse()];
+  });
+};
+
+const grover = (numQubits: number, marked: number) => {
+  const qubits = qubitRange(numQubits);
+  const zeros = qubits.filter(q => !((marked >> q) & 1));
+  const layer = (gate: GateName, on: number[]) => on.map(q => op(gate, [q]));
+  const iterations = Math.max(1, Math.floor(Math.PI / 4 * Math.sqrt(2 ** numQubits)));
+  const iteration = [
+    // Oracle: phase -1 on |marked⟩
+    ...layer('X', zeros), ...multiControlledZ(qubits), ...layer('X', zeros),
+    // Diffusion: reflection about the uniform superposition
+    ...layer('H', qubits), ...layer('X', qubits), ...multiControlledZ(qubits), ...layer('X', qubits), ...layer('H', qubits)
+  ];
+  return [...layer('H', qubits), ...Array.from({ length: iterations }, () => iteration).flat()];
+};
+
+// Each layer puts a random single-qubit gate on every qubit, then CNOT or CZ on alternating
+// neighbour pairs
+const randomCircuit = (numQubits: number, depth: number, rng: Rng) =>
+  qubitRange(depth).flatMap(layer => [
+    ...qubitRange(numQubits).map(q => {
+      const gate = SINGLE_QUBIT_GATES[Math.floor(rng() * SINGLE_QUBIT_GATES.length)];
+      return ROTATION_GATES.includes(gate) ? op(gate, [q], [], { angle: (rng() * 2 * Math.PI).toFixed(4) }) : op(gate, [q]);
+    }),
+    ...qubitRange(numQubits - 1)
+      .filter(q => q % 2 === layer % 2)
+      .map(q => (rng() < 0.5 ? op('CNOT', [q + 1], [q]) : op('CZ', [q + 1], [q])))
+  ]);
+
+// Timeline of a template sized to `numQubits`
+export const buildTemplate = (id: CircuitTemplateId, numQubits: number, options: CircuitTemplateOptions, rng: Rng = Math.random): GateOperation[] => {
+  const operations = (() => {
+    switch (id) {
+      case 'bell': return bellPairs(numQubits);
+      case 'ghz': return ghz(numQubits);
+      case 'w': return wState(numQubits);
+      case 'qft': return qft(numQubits);
+      case 'iqft': return inverseQft(numQubits);
+      case 'grover': return grover(numQubits, options.marked);
+      case 'random': return randomCircuit(numQubits, options.depth, rng);
+    }
+  })();
+  return operations.reduce((timeline, operation) => appendOperation(timeline, operation), [] as GateOperation[]);
+};
+
+// Why a template cannot be built on a circuit of this width, or null
+export const templateWidthError = (template: CircuitTemplate, numQubits: number) => {
+  if (numQubits < template.minQubits) return `${template.label} necesita al menos ${template.minQubits} qubits.`;
+  if (template.maxQubits !== undefined && numQubits > template.maxQubits) return `${template.label} admite como máximo ${template.maxQubits} qubits.`;
+  return null;
+};
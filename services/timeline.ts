@@ -0,0 +1,130 @@
+import { expressionError, expressionParameters } from './expression';
+import type { GateName, GateOperation } from '../types';
+
+export const SINGLE_QUBIT_GATES: GateName[] = ['H', 'X', 'Y', 'Z', 'Rx', 'Ry', 'Rz', 'T'];
+
+export const MULTI_QUBIT_GATES: GateName[] = ['CNOT', 'CZ', 'CP', 'SWAP', 'iSWAP', 'CU', 'CCNOT'];
+
+export const ROTATION_GATES: GateName[] = ['Rx', 'Ry', 'Rz'];
+
+export type QubitRole = 'control' | 'target';
+
+// Qubits a gate is placed on, controls first
+export const gateQubitRoles = (gate: GateName): QubitRole[] => {
+  switch (gate) {
+    case 'CNOT':
+    case 'CZ':
+    case 'CP':
+    case 'CU':
+      return ['control', 'target'];
+    case 'SWAP':
+    case 'iSWAP':
+      return ['target', 'target'];
+    case 'CCNOT':
+      return ['control', 'control', 'target'];
+    default:
+      return ['target'];
+  }
+};
+
+// Whether the operation's `angle` is read when it runs
+export const usesAngle = (op: Pick<GateOperation, 'gate' | 'unitary'>) =>
+  ROTATION_GATES.includes(op.gate) || op.gate === 'CP' || (op.gate === 'CU' && ROTATION_GATES.includes(op.unitary ?? 'X'));
+
+// Used for rotations that carry no angle of their own
+export const DEFAULT_ROTATION_ANGLE = 'pi/4';
+
+// Qubit pairs linked by CNOT in the default circuits
+export const ENTANGLEMENT_PAIRS = [[0, 1], [2, 3], [1, 4]];
+
+export const operationQubits = (op: GateOperation) => [...op.controls, ...op.targets];
+
+// Classical bit a measurement writes to
+export const measurementBit = (op: GateOperation) => op.bit ?? op.targets[0];
+
+// Classical bits an operation writes (measurements) or reads (conditions)
+export const operationBits = (op: GateOperation) => [
+  ...(op.gate === 'M' ? [measurementBit(op)] : []),
+  ...(op.condition ? [op.condition.bit] : [])
+];
+
+// Whether the timeline measures mid-circuit or conditions gates on classical bits
+export const hasClassicalControl = (timeline: GateOperation[]) =>
+  timeline.some(op => operationBits(op).length > 0);
+
+// Named parameters referenced by the timeline's rotation angles
+export const timelineParameters = (timeline: GateOperation[]) =>
+  [...new Set(timeline.flatMap(op => op.angle ? expressionParameters(op.angle) : []))];
+
+// Angles of the timeline that cannot be evaluated, e.g. 'Rx (t=3): Falta ")" en "(pi"'
+export const timelineAngleErrors = (timeline: GateOperation[]) =>
+  timeline.flatMap(op => {
+    if (op.angle === undefined) return [];
+    const error = typeof op.angle === 'string' ? expressionError(op.angle) : 'No es una expresión';
+    return error ? [`${op.gate} (t=${op.column}): ${error}`] : [];
+  });
+
+// Drops operations touching qubits beyond the circuit width
+export const trimTimeline = (timeline: GateOperation[], numQubits: number) =>
+  timeline.filter(op => operationQubits(op).every(q => q < numQubits));
+
+// Stable sort by column, keeping list order inside a column
+export const sortTimeline = (timeline: GateOperation[]) =>
+  timeline
+    .map((op, index) => ({ op, index }))
+    .sort((a, b) => a.op.column - b.op.column || a.index - b.index)
+    .map(({ op }) => op);
+
+// First column after every operation already touching any of `qubits` or of the classical `bits`
+export const nextFreeColumn = (timeline: GateOperation[], qubits: number[], bits: number[] = []) =>
+  timeline
+    .filter(op => operationQubits(op).some(q => qubits.includes(q)) || operationBits(op).some(b => bits.includes(b)))
+    .reduce((column, op) => Math.max(column, op.column + 1), 0);
+
+export const appendOperation = (timeline: GateOperation[], op: Omit<GateOperation, 'column'>, column?: number): GateOperation[] => [
+  ...timeline,
+  { ...op, column: column ?? nextFreeColumn(timeline, operationQubits(op as GateOperation), operationBits(op as GateOperation)) }
+];
+
+// Hadamard on every qubit, Rz on `phaseQubits`, then the default CNOT entanglement pairs
+export const createBaseTimeline = (numQubits: number, phaseQubits: number[] = []): GateOperation[] => {
+  let timeline: GateOperation[] = Array.from({ length: numQubits }, (_, q) => ({ gate: 'H' as GateName, targets: [q], controls: [], column: 0 }));
+  phaseQubits
+    .filter(q => q < numQubits)
+    .forEach(q => {
+      timeline = appendOperation(timeline, { gate: 'Rz', targets: [q], controls: [] });
+    });
+  ENTANGLEMENT_PAIRS
+    .filter(([c, t]) => c < numQubits && t < numQubits)
+    .forEach(([c, t]) => {
+      timeline = appendOperation(timeline, { gate: 'CNOT', targets: [t], controls: [c] });
+    });
+  return timeline;
+};
+
+// Converts the boolean gate grid stored by older seeds into a timeline,
+// preserving the fixed order in which that grid used to be applied
+export const timelineFromSelectedGates = (selected: Record<string, boolean[]>, numQubits: number): GateOperation[] => {
+  const gridOrder: [string, GateName][] = [
+    ['hadamard', 'H'], ['pauliX', 'X'], ['pauliY', 'Y'], ['pauliZ', 'Z'],
+    ['rotationX', 'Rx'], ['rotationY', 'Ry'], ['rotationZ', 'Rz'], ['tGate', 'T']
+  ];
+  let timeline: GateOperation[] = [];
+  gridOrder.forEach(([key, gate]) => {
+    (selected[key] || []).forEach((active, q) => {
+      if (active && q < numQubits) timeline = appendOperation(timeline, { gate, targets: [q], controls: [] });
+    });
+  });
+  ENTANGLEMENT_PAIRS
+    .filter(([c, t]) => c < numQubits && t < numQubits)
+    .forEach(([c, t]) => {
+      timeline = appendOperation(timeline, { gate: 'CNOT', targets: [t], controls: [c] });
+    });
+  (selected.swap || []).forEach((active, i) => {
+    if (active && i + 1 < numQubits) timeline = appendOperation(timeline, { gate: 'SWAP', targets: [i, i + 1], controls: [] });
+  });
+  (selected.ccnot || []).forEach((active, i) => {
+    if (active && i + 2 < numQubits) timeline = appendOperation(timeline, { gate: 'CCNOT', targets: [i + 2], controls: [i, i + 1] });
+  });
+  return timeline;
+};
@@ -0,0 +1,123 @@
+import { TUNNELING_LIMITS, WORMHOLE_CONFIG } from '../constants';
+import type { SpacetimePoint, TransmissionPoint, TransmissionResonance, TunnelingMethod, TunnelingSpectrum, WormholeConfig } from '../types';
+
+// Stationary waves -ψ'' + U(l)ψ = Eψ along the throat, with lengths in units of b0 and U, E in
+// units of ħ²/(2m b0²). Far from the throat U → 0, so waves come in and leave freely.
+
+export const TUNNELING_METHOD_LABELS: Record<TunnelingMethod, string> = {
+  transfer_matrix: 'Matriz de transferencia',
+  wkb: 'WKB'
+};
+
+// Potential sampled every `step` along the throat
+export interface TunnelingPotential {
+  step: number;
+  values: number[];
+}
+
+// Exotic matter (negative energy density) is a barrier and ordinary matter a well: U = -G_tt b0²,
+// i.e. -8πG ρ b0²/c⁴. dark_energy sets how much of it there is relative to the reference configuration.
+export const tunnelingPotential = (points: SpacetimePoint[], config: WormholeConfig): TunnelingPotential => {
+  const b0 = config.wormhole_distance;
+  const scale = config.dark_energy / WORMHOLE_CONFIG.dark_energy;
+  return {
+    step: 10 / config.num_points,
+    values: points.map(point => -point.einstein_tensor * b0 * b0 * scale)
+  };
+};
+
+// Product of the matrices carrying (ψ, ψ') across each constant-potential sample; every factor,
+// oscillating or evanescent, is real with determinant 1. A wave e^{ikl} + r e^{-ikl} → t e^{ikl}
+// then has |t|² = 4k² / ((M21 - k²M12)² + k²(M11 + M22)²).
+const transferMatrixTransmission = ({ step, values }: TunnelingPotential, energy: number) => {
+  let [a, b, c, d] = [1, 0, 0, 1];
+  values.forEach(U => {
+    const q = energy - U;
+    let segment: [number, number, number, number];
+    if (q > 0) {
+      const k = Math.sqrt(q);
+      segment = [Math.cos(k * step), Math.sin(k * step) / k, -k * Math.sin(k * step), Math.cos(k * step)];
+    } else if (q < 0) {
+      const kappa = Math.sqrt(-q);
+      segment = [Math.cosh(kappa * step), Math.sinh(kappa * step) / kappa, kappa * Math.sinh(kappa * step), Math.cosh(kappa * step)];
+    } else {
+      segment = [1, step, 0, 1];
+    }
+    const [s11, s12, s21, s22] = segment;
+    [a, b, c, d] = [s11 * a + s12 * c, s11 * b + s12 * d, s21 * a + s22 * c, s21 * b + s22 * d];
+  });
+  const k2 = energy;
+  const transmission = 4 * k2 / ((c - k2 * b) ** 2 + k2 * (a + d) ** 2);
+  // An opaque barrier overflows the matrix entries
+  return Number.isFinite(transmission) ? Math.min(1, transmission) : 0;
+};
+
+// e^{-2∫√(U - E) dl} over the classically forbidden samples. Above the barrier this is 1: WKB
+// misses reflection off the barrier top and the resonances of wells.
+const wkbTransmission = ({ step, values }: TunnelingPotential, energy: number) =>
+  Math.exp(-2 * values.reduce((sum, U) => (U > energy ? sum + Math.sqrt(U - energy) * step : sum), 0));
+
+export const transmission = (potential: TunnelingPotential, energy: number, method: TunnelingMethod) => {
+  if (!(energy > 0)) return 0;
+  return method === 'wkb' ? wkbTransmission(potential, energy) : transferMatrixTransmission(potential, energy);
+};
+
+// Peaks of T(E) rising at least `resonance_prominence` above the lowest point separating them
+// from higher transmission (or from the ends of the curve). Sharp resonances fall between the
+// sampled energies, so each peak and its half-prominence crossings are refined on `transmissionAt`.
+export const findResonances = (points: TransmissionPoint[], transmissionAt: (energy: number) => number): TransmissionResonance[] => {
+  const E = points.map(point => point.energy);
+  const T = points.map(point => point.transmission);
+  const resonances: TransmissionResonance[] = [];
+  for (let i = 1; i < T.length - 1; i++) {
+    if (!(T[i] > T[i - 1] && T[i] >= T[i + 1])) continue;
+    // Golden-section search for the maximum between the neighbouring samples
+    let [low, high] = [E[i - 1], E[i + 1]];
+    for (let k = 0; k < 40; k++) {
+      const m1 = high - 0.618 * (high - low);
+      const m2 = low + 0.618 * (high - low);
+      if (transmissionAt(m1) < transmissionAt(m2)) low = m1;
+      else high = m2;
+    }
+    const energy = (low + high) / 2;
+    const peak = Math.max(T[i], transmissionAt(energy));
+    const side = (direction: number) => {
+      let lowest = peak;
+      for (let j = i + direction; j >= 0 && j < T.length && T[j] <= peak; j += direction) lowest = Math.min(lowest, T[j]);
+      return lowest;
+    };
+    const prominence = peak - Math.max(side(-1), side(1));
+    if (prominence < TUNNELING_LIMITS.resonance_prominence) continue;
+    // Bisects between the last sample above half the prominence and the first below it
+    const level = peak - prominence / 2;
+    const crossing = (direction: number) => {
+      let inside = energy;
+      let j = direction > 0 ? i + 1 : i - 1;
+      while (j >= 0 && j < T.length && T[j] >= level) {
+        inside = E[j];
+        j += direction;
+      }
+      if (j < 0 || j >= T.length) return inside;
+      let outside = E[j];
+      for (let k = 0; k < 40; k++) {
+        const middle = (inside + outside) / 2;
+        if (transmissionAt(middle) >= level) inside = middle;
+        else outside = middle;
+      }
+      return (inside + outside) / 2;
+    };
+    resonances.push({ energy, transmission: peak, width: crossing(1) - crossing(-1) });
+  }
+  return resonances;
+};
+
+// T(E) from just above 0 to a few times the barrier height
+export const transmissionSpectrum = (potential: TunnelingPotential, method: TunnelingMethod): TunnelingSpectrum => {
+  const barrier_height = Math.max(0, ...potential.values);
+  const maxEnergy = Math.max(TUNNELING_LIMITS.min_energy, TUNNELING_LIMITS.barrier_multiple * barrier_height);
+  const points = Array.from({ length: TUNNELING_LIMITS.energy_points }, (_, j) => {
+    const energy = maxEnergy * (j + 1) / TUNNELING_LIMITS.energy_points;
+    return { energy, transmission: transmission(potential, energy, method) };
+  });
+  return { method, barrier_height, points, resonances: findResonances(points, energy => transmission(potential, energy, method)) };
+};
@@ -1,206 +1,251 @@
-import { PHYSICAL_CONSTANTS, WORMHOLE_CONFIG } from '../constants';
-import type { Circuit, FragmentationSystem, QuantumWormholeType, ReconstructionResult, ReconstructedQubit } from '../types';
-
-// Simplified Dirac matrices for visualization
-const getDiracMatrices = () => ({
-  alpha_x: [[0, 1], [1, 0]],
-  alpha_y: [[0, -1], [1, 0]], // Simplified for visualization
-  beta: [[1, 0], [0, -1]],
-  gamma: [
-    [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, -1, 0], [0, 0, 0, -1]],
-    [[0, 0, 0, 1], [0, 0, 1, 0], [0, -1, 0, 0], [-1, 0, 0, 0]]
-  ]
-});
+import { FRAGMENTATION_CONFIG, FRAGMENTATION_LIMITS, METRIC_CONFIG, WORMHOLE_CONFIG, WORMHOLE_CONFIG_LIMITS } from '../constants';
+import { abs, arg, fromPolar, mul, scale } from './complex';
+import { solveMajoranaField } from './dirac';
+import { METRIC_FAMILIES, metricConfigErrors, metricSpacetime } from './metrics';
+import { createRng } from './random';
+import { transmission, transmissionSpectrum, tunnelingPotential, type TunnelingPotential } from './tunneling';
+import type { Circuit, DiracSpectrum, FragmentationConfig, FragmentationSystem, FragmentSampling, MetricComparison, MetricConfig, MetricFamily, QuantumWormholeType, Qubit, ReconstructionResult, ReconstructedQubit, TunnelingMethod, WormholeConfig } from '../types';
 
 // Quantum Wormhole Model
 export class QuantumWormhole implements QuantumWormholeType {
-  config: typeof WORMHOLE_CONFIG;
+  config: WormholeConfig;
+  metric: MetricConfig;
+  tunneling_method: TunnelingMethod;
   throat_geometry;
   spacetime_curvature;
   majorana_field;
+  dirac_spectrum: DiracSpectrum;
+  tunneling_potential: TunnelingPotential;
 
-  constructor(config = WORMHOLE_CONFIG) {
+  constructor(config: WormholeConfig = WORMHOLE_CONFIG, metric: MetricConfig = METRIC_CONFIG, tunneling_method: TunnelingMethod = 'transfer_matrix') {
     this.config = config;
-    this.throat_geometry = this.calculateThroatGeometry();
+    this.metric = metric;
+    this.tunneling_method = tunneling_method;
     this.spacetime_curvature = this.calculateSpacetimeCurvature();
-    this.majorana_field = this.initializeMajoranaField();
+    this.throat_geometry = this.calculateThroatGeometry();
+    const { field, spectrum } = solveMajoranaField(this.spacetime_curvature, config);
+    this.majorana_field = field;
+    this.dirac_spectrum = spectrum;
+    this.tunneling_potential = tunnelingPotential(this.spacetime_curvature, config);
   }
 
+  // Embedding profile r(z) of the chosen metric, without the Einstein tensor terms
   calculateThroatGeometry() {
-    const points = [];
-    const throat_radius = this.config.wormhole_distance;
-    
-    for (let i = 0; i < this.config.num_points; i++) {
-      const z = (i / this.config.num_points - 0.5) * 10 * throat_radius;
-      const rho_z = throat_radius * Math.sqrt(1 + (z / throat_radius)**2);
-      
-      points.push({
-        z: z,
-        radius: rho_z,
-        curvature: 1 / (throat_radius * (1 + (z / throat_radius)**2)**(3/2)),
-        energy_density: this.config.dark_energy * Math.exp(-Math.abs(z) / throat_radius)
-      });
-    }
-    return points;
+    return this.spacetime_curvature.map(({ z, radius, curvature, energy_density }) => ({ z, radius, curvature, energy_density }));
   }
 
   calculateSpacetimeCurvature() {
-    return this.throat_geometry.map(point => ({
-      ...point,
-      einstein_tensor: PHYSICAL_CONSTANTS.EINSTEIN_CONSTANT * point.energy_density,
-      ricci_scalar: 2 * point.curvature,
-      stress_energy: point.energy_density / (PHYSICAL_CONSTANTS.C**2)
-    }));
+    return metricSpacetime(this.metric, this.config);
   }
 
-  initializeMajoranaField() {
-    return this.throat_geometry.map((point, i) => {
-      const phase = 2 * Math.PI * i / this.config.num_points;
-      const amplitude = Math.exp(-Math.abs(point.z) / this.config.wormhole_distance);
-      
-      return {
-        position: point.z,
-        amplitude: amplitude,
-        phase: phase,
-        spinor: [
-          amplitude * Math.cos(phase / 2),
-          amplitude * Math.sin(phase / 2),
-          -amplitude * Math.sin(phase / 2),
-          amplitude * Math.cos(phase / 2)
-        ],
-        mass_term: this.config.majorana_mass * amplitude
-      };
-    });
+  // Transmission through the throat's potential of a wave whose energy (in units of ħ²/(2m b0²))
+  // is the squared amplitude it carries
+  calculateQuantumTunnelingProbability(energy_state: { amplitude: number }) {
+    return transmission(this.tunneling_potential, energy_state.amplitude ** 2, this.tunneling_method);
   }
 
-  calculateQuantumTunnelingProbability(energy_state: { amplitude: number }) {
-    const barrier_height = Math.abs(this.config.dark_energy);
-    const particle_energy = energy_state.amplitude * PHYSICAL_CONSTANTS.HBAR * PHYSICAL_CONSTANTS.C;
-    
-    if (particle_energy > barrier_height) {
-      return 0.98;
-    } else {
-      const kappa = Math.sqrt(2 * (barrier_height - particle_energy)) / PHYSICAL_CONSTANTS.HBAR;
-      const barrier_width = 2 * this.config.wormhole_distance;
-      return Math.exp(-2 * kappa * barrier_width);
-    }
+  calculateTunnelingSpectrum() {
+    return transmissionSpectrum(this.tunneling_potential, this.tunneling_method);
   }
 }
 
-// Quantum Fragmentation System Integration
-export const createWormholeFragmentationSystem = (circuitA: Circuit, circuitB: Circuit): FragmentationSystem => {
-  const wormhole = new QuantumWormhole();
+// Why each invalid parameter is rejected; empty when the config is usable
+export const wormholeConfigErrors = (config: WormholeConfig) => {
+  const errors: Partial<Record<keyof WormholeConfig, string>> = {};
+  (Object.keys(WORMHOLE_CONFIG_LIMITS) as (keyof WormholeConfig)[]).forEach(key => {
+    const value = config[key];
+    const { min, max } = WORMHOLE_CONFIG_LIMITS[key];
+    if (!Number.isFinite(value)) errors[key] = 'No es un número';
+    else if (value < min || value > max) errors[key] = `Fuera de [${min}, ${max}]`;
+    else if ((key === 'num_points' || key === 'dimension') && !Number.isInteger(value)) errors[key] = 'Debe ser entero';
+  });
+  return errors;
+};
+
+// Scales a qubit's amplitudes by the fragment weight and shifts the phase of |1⟩
+// by the geometric phase picked up along the throat
+const transportQubit = (qubit: Qubit, weight: number, geometric_phase: number): Qubit => {
+  const alpha = scale(qubit.alpha, weight);
+  const beta = mul(qubit.beta, fromPolar(weight, geometric_phase));
+  return {
+    ...qubit,
+    alpha,
+    beta,
+    amplitude: abs(beta),
+    phase: arg(beta)
+  };
+};
+
+export const FRAGMENT_SAMPLING_LABELS: Record<FragmentSampling, string> = {
+  uniform: 'Uniforme',
+  random: 'Aleatorio',
+  gaussian: 'Gaussiano en la garganta'
+};
+
+// Why each invalid fragmentation parameter is rejected; empty when it is usable. The spread
+// only matters to the Gaussian scheme.
+export const fragmentationConfigErrors = (fragmentation: FragmentationConfig) => {
+  const errors: Partial<Record<keyof FragmentationConfig, string>> = {};
+  const { num_fragments, grid_width, num_sectors, spread } = fragmentation;
+  const { min_fragments, max_fragments, min_spread, max_spread } = FRAGMENTATION_LIMITS;
+  if (!Number.isInteger(num_fragments)) errors.num_fragments = 'Debe ser entero';
+  else if (num_fragments < min_fragments || num_fragments > max_fragments) errors.num_fragments = `Fuera de [${min_fragments}, ${max_fragments}]`;
+  const upper = errors.num_fragments ? max_fragments : num_fragments;
+  if (!Number.isInteger(grid_width)) errors.grid_width = 'Debe ser entero';
+  else if (grid_width < 1 || grid_width > upper) errors.grid_width = `Fuera de [1, ${upper}]`;
+  if (!Number.isInteger(num_sectors)) errors.num_sectors = 'Debe ser entero';
+  else if (num_sectors < 1 || num_sectors > upper) errors.num_sectors = `Fuera de [1, ${upper}]`;
+  if (!(fragmentation.sampling in FRAGMENT_SAMPLING_LABELS)) errors.sampling = 'Esquema desconocido';
+  else if (fragmentation.sampling === 'gaussian') {
+    if (!Number.isFinite(spread)) errors.spread = 'No es un número';
+    else if (spread < min_spread || spread > max_spread) errors.spread = `Fuera de [${min_spread}, ${max_spread}]`;
+  }
+  return errors;
+};
+
+// Where each fragment sits along the throat, in [0, 1) and increasing so that fragment ids,
+// grid rows and sectors run from one end of the throat to the other
+const fragmentSamples = ({ num_fragments, sampling, spread, seed }: FragmentationConfig) => {
+  if (sampling === 'uniform') return Array.from({ length: num_fragments }, (_, i) => i / num_fragments);
+  const random = createRng(seed);
+  // Box–Muller around the centre, redrawn until it falls on the simulated throat
+  const gaussian = () => {
+    for (;;) {
+      const sample = 0.5 + spread * Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      if (sample >= 0 && sample < 1) return sample;
+    }
+  };
+  return Array.from({ length: num_fragments }, sampling === 'gaussian' ? gaussian : random).sort((a, b) => a - b);
+};
+
+// Share of the fragment at `sample` carried by each of `num_channels` circuits. Fragments sweep a
+// chain of channels, splitting between neighbouring circuits as cos/sin; with two circuits and
+// uniform sampling this is the original alpha = cos(πi/2048), beta = sin(πi/2048) split of 1024
+// fragments. Squares sum to 1.
+const channelWeights = (sample: number, num_channels: number) => {
+  const position = sample * Math.max(1, num_channels - 1);
+  return Array.from({ length: num_channels }, (_, k) =>
+    Math.abs(position - k) < 1 ? Math.cos(Math.PI / 2 * (position - k)) : 0);
+};
+
+// Quantum Fragmentation System Integration: every circuit is one party of a multi-party channel
+export const createWormholeFragmentationSystem = (
+  circuits: Circuit[],
+  config: WormholeConfig = WORMHOLE_CONFIG,
+  metric: MetricConfig = METRIC_CONFIG,
+  tunneling_method: TunnelingMethod = 'transfer_matrix',
+  fragmentation: FragmentationConfig = FRAGMENTATION_CONFIG
+): FragmentationSystem => {
+  const wormhole = new QuantumWormhole(config, metric, tunneling_method);
   const fragmentedStates = [];
+  const circuit_offsets = circuits.map((_, k) => circuits.slice(0, k).reduce((sum, c) => sum + c.qubits.length, 0));
+  const { num_fragments, grid_width, num_sectors } = fragmentation;
+  const points = wormhole.spacetime_curvature.length;
   
-  for (let i = 0; i < 1024; i++) {
-    const wormhole_point = wormhole.spacetime_curvature[i % wormhole.spacetime_curvature.length];
-    const majorana_field = wormhole.majorana_field[i % wormhole.majorana_field.length];
-    const geometric_factor = wormhole_point.radius / WORMHOLE_CONFIG.wormhole_distance;
-    const alpha = Math.cos(Math.PI * i / 2048) * Math.sqrt(geometric_factor);
-    const beta = Math.sin(Math.PI * i / 2048) * Math.sqrt(geometric_factor);
+  // Each fragment reads the throat point its sample lands on, whatever the count and scheme
+  fragmentSamples(fragmentation).forEach((sample, i) => {
+    const wormhole_point = wormhole.spacetime_curvature[Math.min(points - 1, Math.floor(sample * points))];
+    const majorana_field = wormhole.majorana_field[Math.min(points - 1, Math.floor(sample * points))];
+    const geometric_factor = wormhole_point.radius / config.wormhole_distance;
+    // Gaussian curvature in units of 1/b0², so the phase it adds does not depend on the throat's scale
+    const curvature_phase = wormhole_point.curvature * config.wormhole_distance ** 2;
+    const channel_weights = channelWeights(sample, circuits.length).map(w => w * Math.sqrt(geometric_factor));
+    // Exchanging Majorana zero modes adds π/4, weighted by how much of the zero mode sits here
+    const geometric_phase = majorana_field.phase + Math.PI / 4 * majorana_field.zero_mode;
     
     const quantum_state = {
       id: i,
       wormhole_position: wormhole_point.z,
-      alpha,
-      beta,
-      geometric_phase: majorana_field.phase,
+      sample,
+      channel_weights,
+      geometric_phase,
       tunneling_probability: wormhole.calculateQuantumTunnelingProbability({
-        amplitude: Math.sqrt(alpha*alpha + beta*beta)
+        amplitude: Math.sqrt(channel_weights.reduce((sum, w) => sum + w * w, 0))
+      }),
+      // Even-indexed circuits traverse the throat forwards, odd-indexed ones backwards
+      qubits: circuits.flatMap((circuit, k) => {
+        const direction = k % 2 === 0 ? 1 : -1;
+        return circuit.qubits.map((qubit) => ({
+          ...transportQubit(qubit, channel_weights[k] * majorana_field.amplitude, direction * (geometric_phase + curvature_phase)),
+          id: qubit.id + circuit_offsets[k],
+          wormhole_coupling: direction * wormhole_point.energy_density,
+          spacetime_correction: direction * wormhole_point.einstein_tensor
+        }));
       }),
-      qubits: [
-        ...circuitA.qubits.map((qubit) => ({
-          ...qubit,
-          amplitude: qubit.amplitude * alpha * majorana_field.amplitude,
-          phase: qubit.phase + majorana_field.phase + wormhole_point.curvature,
-          wormhole_coupling: wormhole_point.energy_density,
-          spacetime_correction: wormhole_point.einstein_tensor
-        })),
-        ...circuitB.qubits.map((qubit) => ({
-          ...qubit,
-          id: qubit.id + 5,
-          amplitude: qubit.amplitude * beta * majorana_field.amplitude,
-          phase: qubit.phase - majorana_field.phase - wormhole_point.curvature,
-          wormhole_coupling: -wormhole_point.energy_density,
-          spacetime_correction: -wormhole_point.einstein_tensor
-        }))
-      ],
       fragment_coords: {
-        x: i % 32,
-        y: Math.floor(i / 32),
-        wormhole_sector: Math.floor(i / 256)
+        x: i % grid_width,
+        y: Math.floor(i / grid_width),
+        wormhole_sector: Math.floor(i * num_sectors / num_fragments)
       }
     };
     fragmentedStates.push(quantum_state);
-  }
+  });
   
   return {
     wormhole: wormhole,
+    circuit_ids: circuits.map(c => c.id),
+    circuit_sizes: circuits.map(c => c.qubits.length),
     fragmented_states: fragmentedStates,
     total_energy: fragmentedStates.reduce((sum, state) => 
       sum + state.qubits.reduce((qsum, q) => qsum + q.amplitude * q.amplitude, 0), 0),
     average_tunneling: fragmentedStates.reduce((sum, state) => 
-      sum + state.tunneling_probability, 0) / 1024,
+      sum + state.tunneling_probability, 0) / num_fragments,
     geometric_coherence: fragmentedStates.filter(state => 
-      state.tunneling_probability > 0.5).length / 1024
+      state.tunneling_probability > 0.5).length / num_fragments,
+    tunneling_spectrum: wormhole.calculateTunnelingSpectrum(),
+    fragmentation
   };
 };
 
 // Reconstruction using wormhole geometry
 export const reconstructWithWormholeGeometry = (fragmentationSystem: FragmentationSystem): ReconstructionResult => {
-  const { wormhole, fragmented_states, average_tunneling } = fragmentationSystem;
-  
-  const reconstructed_A = { qubits: [] as (ReconstructedQubit & {contributing_fragment_ids?: number[]})[], wormhole_fidelity: 0 };
-  const reconstructed_B = { qubits: [] as (ReconstructedQubit & {contributing_fragment_ids?: number[]})[], wormhole_fidelity: 0 };
+  const { wormhole, fragmented_states, average_tunneling, circuit_ids, circuit_sizes, tunneling_spectrum, fragmentation } = fragmentationSystem;
   
-  for (let qubit_idx = 0; qubit_idx < 5; qubit_idx++) {
-    let qubit_A_reconstruction = { amplitude: 0, phase: 0, coherence: 0, geometric_weight: 0, wormhole_contributions: [] as number[], contributing_fragment_ids: [] as number[] };
-    let qubit_B_reconstruction = { amplitude: 0, phase: 0, coherence: 0, geometric_weight: 0, wormhole_contributions: [] as number[], contributing_fragment_ids: [] as number[] };
+  const reconstructed = circuit_ids.map((id, k) => {
+    const offset = circuit_sizes.slice(0, k).reduce((sum, n) => sum + n, 0);
+    const qubits: (ReconstructedQubit & {contributing_fragment_ids?: number[]})[] = [];
     
-    fragmented_states.forEach(state => {
-      // MODIFICATION: The geometric weight is now based only on tunneling probability,
-      // avoiding scaling issues from ultra-small wormhole_position values.
-      const geometric_weight = state.tunneling_probability;
+    for (let qubit_idx = 0; qubit_idx < circuit_sizes[k]; qubit_idx++) {
+      const qubit_reconstruction = { amplitude: 0, phase: 0, coherence: 0, geometric_weight: 0, wormhole_contributions: [] as number[], contributing_fragment_ids: [] as number[] };
       
-      if (state.alpha > 0.3) {
-        const qubit_A = state.qubits[qubit_idx];
-        qubit_A_reconstruction.amplitude += qubit_A.amplitude * state.alpha * geometric_weight;
-        qubit_A_reconstruction.phase += qubit_A.phase * state.alpha * geometric_weight;
-        qubit_A_reconstruction.geometric_weight += state.alpha * geometric_weight;
-        qubit_A_reconstruction.wormhole_contributions.push(state.wormhole_position);
-        qubit_A_reconstruction.contributing_fragment_ids.push(state.id);
-      }
+      fragmented_states.forEach(state => {
+        // MODIFICATION: The geometric weight is now based only on tunneling probability,
+        // avoiding scaling issues from ultra-small wormhole_position values.
+        const geometric_weight = state.tunneling_probability;
+        const channel_weight = state.channel_weights[k];
+        
+        if (channel_weight > 0.3) {
+          const qubit = state.qubits[offset + qubit_idx];
+          qubit_reconstruction.amplitude += qubit.amplitude * channel_weight * geometric_weight;
+          qubit_reconstruction.phase += qubit.phase * channel_weight * geometric_weight;
+          qubit_reconstruction.coherence += qubit.coherence * channel_weight * geometric_weight;
+          qubit_reconstruction.geometric_weight += channel_weight * geometric_weight;
+          qubit_reconstruction.wormhole_contributions.push(state.wormhole_position);
+          qubit_reconstruction.contributing_fragment_ids.push(state.id);
+        }
+      });
       
-      if (state.beta > 0.3) {
-        const qubit_B = state.qubits[qubit_idx + 5];
-        qubit_B_reconstruction.amplitude += qubit_B.amplitude * state.beta * geometric_weight;
-        qubit_B_reconstruction.phase += qubit_B.phase * state.beta * geometric_weight;
-        qubit_B_reconstruction.geometric_weight += state.beta * geometric_weight;
-        qubit_B_reconstruction.wormhole_contributions.push(state.wormhole_position);
-        qubit_B_reconstruction.contributing_fragment_ids.push(state.id);
+      if (qubit_reconstruction.geometric_weight > 0) {
+        qubit_reconstruction.amplitude /= qubit_reconstruction.geometric_weight;
+        qubit_reconstruction.phase /= qubit_reconstruction.geometric_weight;
+        // MODIFICATION: Use tanh for a normalized coherence value between 0 and 1,
+        // preventing negative fidelities. Its input is the weight per fragment, scaled so that the
+        // original 1024 fragments give tanh(weight / 100); the fragment count then only changes how
+        // finely the throat is sampled, not the result.
+        // The weighted mean purity of the incoming qubit caps it, so mixed inputs reconstruct worse.
+        qubit_reconstruction.coherence = Math.tanh(10.24 * qubit_reconstruction.geometric_weight / fragmentation.num_fragments) *
+          (qubit_reconstruction.coherence / qubit_reconstruction.geometric_weight);
       }
-    });
-    
-    if (qubit_A_reconstruction.geometric_weight > 0) {
-      qubit_A_reconstruction.amplitude /= qubit_A_reconstruction.geometric_weight;
-      qubit_A_reconstruction.phase /= qubit_A_reconstruction.geometric_weight;
-      // MODIFICATION: Use tanh for a normalized coherence value between 0 and 1,
-      // preventing negative fidelities. The divisor scales the input.
-      qubit_A_reconstruction.coherence = Math.tanh(qubit_A_reconstruction.geometric_weight / 100);
-    }
-    
-    if (qubit_B_reconstruction.geometric_weight > 0) {
-      qubit_B_reconstruction.amplitude /= qubit_B_reconstruction.geometric_weight;
-      qubit_B_reconstruction.phase /= qubit_B_reconstruction.geometric_weight;
-      qubit_B_reconstruction.coherence = Math.tanh(qubit_B_reconstruction.geometric_weight / 100);
+      
+      qubits.push(qubit_reconstruction);
     }
     
-    reconstructed_A.qubits.push(qubit_A_reconstruction);
-    reconstructed_B.qubits.push(qubit_B_reconstruction);
-  }
-  
-  reconstructed_A.wormhole_fidelity = reconstructed_A.qubits.reduce((sum, q) => sum + q.coherence, 0) / 5;
-  reconstructed_B.wormhole_fidelity = reconstructed_B.qubits.reduce((sum, q) => sum + q.coherence, 0) / 5;
+    return {
+      id,
+      qubits,
+      wormhole_fidelity: qubits.reduce((sum, q) => sum + q.coherence, 0) / Math.max(1, qubits.length)
+    };
+  });
 
   // NEW: Calculate exploration factor based on the spread of contributing fragments.
   // This rewards simulations that explore a wider range of the wormhole spectrum.
@@ -208,8 +253,8 @@ export const reconstructWithWormholeGeometry = (fragmentationSystem: Fragmentati
     const all_fragment_ids = qubits.flatMap(q => q.contributing_fragment_ids || []);
     if (all_fragment_ids.length < 20) return 0; // Not enough data for meaningful variance
     
-    // Use a dimensionless position for stable variance calculation
-    const norm_positions = all_fragment_ids.map(id => (id / WORMHOLE_CONFIG.num_points - 0.5) * 10);
+    // Use a dimensionless position for stable variance calculation: the sampled throat distance in units of b0
+    const norm_positions = all_fragment_ids.map(id => (fragmented_states[id].sample - 0.5) * 10);
     const mean = norm_positions.reduce((a, b) => a + b, 0) / norm_positions.length;
     const variance = norm_positions.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / norm_positions.length;
 
@@ -218,25 +263,47 @@ export const reconstructWithWormholeGeometry = (fragmentationSystem: Fragmentati
     return Math.min(1.0, variance / 8.0);
   };
   
-  const exploration_A = calculateExplorationFactor(reconstructed_A.qubits);
-  const exploration_B = calculateExplorationFactor(reconstructed_B.qubits);
-  const average_exploration = (exploration_A + exploration_B) / 2;
+  const parties = Math.max(1, reconstructed.length);
+  const average_exploration = reconstructed.reduce((sum, c) => sum + calculateExplorationFactor(c.qubits), 0) / parties;
 
-  const average_fidelity = (reconstructed_A.wormhole_fidelity + reconstructed_B.wormhole_fidelity) / 2;
+  const average_fidelity = reconstructed.reduce((sum, c) => sum + c.wormhole_fidelity, 0) / parties;
   
   // MODIFICATION: The final efficiency metric now combines fidelity with the exploration factor.
   // This aligns with the user's view of oscillation and exploration as a positive mechanism for a QNN.
   const wormhole_efficiency = 0.7 * average_fidelity + 0.3 * average_exploration;
   
   return {
-    circuit_A: reconstructed_A,
-    circuit_B: reconstructed_B,
+    circuits: reconstructed,
     wormhole_efficiency,
     average_tunneling,
+    tunneling_spectrum,
+    dirac_spectrum: wormhole.dirac_spectrum,
+    fragmentation,
     geometric_corrections: wormhole.spacetime_curvature.slice(0, 10).map(point => ({
       position: point.z,
       curvature: point.ricci_scalar,
       energy: point.stress_energy
     }))
   };
-};
\ No newline at end of file
+};
+
+// Runs fragmentation and reconstruction of the same circuits on every metric family the
+// parameters are valid for, so their effect on reconstruction can be compared
+export const compareMetricFamilies = (
+  circuits: Circuit[],
+  config: WormholeConfig,
+  metric: MetricConfig,
+  tunneling_method: TunnelingMethod,
+  fragmentation: FragmentationConfig = FRAGMENTATION_CONFIG
+): MetricComparison[] =>
+  (Object.keys(METRIC_FAMILIES) as MetricFamily[])
+    .map(family => ({ ...metric, family }))
+    .filter(candidate => Object.keys(metricConfigErrors(candidate, config.wormhole_distance)).length === 0)
+    .map(candidate => {
+      const system = createWormholeFragmentationSystem(circuits, config, candidate, tunneling_method, fragmentation);
+      return {
+        family: candidate.family,
+        throat_geometry: system.wormhole.throat_geometry,
+        reconstruction: reconstructWithWormholeGeometry(system)
+      };
+    });
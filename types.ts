@@ -1,6 +1,20 @@
 
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+// Dense complex matrix, row-major
+export interface ComplexMatrix {
+  re: number[][];
+  im: number[][];
+}
+
 export interface Qubit {
   id: number;
+  // Single-qubit amplitudes α|0⟩ + β|1⟩ (for entangled qubits, the pure state with the same Bloch vector direction)
+  alpha: Complex;
+  beta: Complex;
   amplitude: number;
   phase: number;
   coherence: number;
@@ -8,16 +22,135 @@ export interface Qubit {
   spacetime_correction?: number;
 }
 
+// (⟨X⟩, ⟨Y⟩, ⟨Z⟩) of a single-qubit state; length 1 when pure, shorter when mixed
+export interface BlochVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type GateName = 'H' | 'X' | 'Y' | 'Z' | 'Rx' | 'Ry' | 'Rz' | 'T' | 'CNOT' | 'CZ' | 'CP' | 'SWAP' | 'iSWAP' | 'CU' | 'CCNOT' | 'M';
+
+// One gate placed on a circuit's timeline. Operations run in column order;
+// within a column, in the order they appear in the list.
+export interface GateOperation {
+  gate: GateName;
+  targets: number[];
+  controls: number[];
+  column: number;
+  // Angle for Rx/Ry/Rz, CP and rotation-based CU as an expression, e.g. 'pi/3' or '2*theta1'
+  angle?: string;
+  // Single-qubit gate that CU applies to its target
+  unitary?: GateName;
+  // Classical bit an M (measurement) writes its outcome to; defaults to the measured qubit's index
+  bit?: number;
+  // Runs the operation only when a classical bit holds the given value
+  condition?: ClassicalCondition;
+}
+
+export interface ClassicalCondition {
+  bit: number;
+  value: 0 | 1;
+}
+
+export type NoiseChannelType = 'depolarizing' | 'amplitude_damping' | 'phase_damping' | 'readout_error';
+
+export interface NoiseChannel {
+  type: NoiseChannelType;
+  probability: number;
+}
+
+export interface NoiseModel {
+  // Keyed by qubit id (e.g. 'A0'), applied during evolve(dt) with `probability` per simulated second
+  qubit: Record<string, NoiseChannel[]>;
+  // Keyed by gate label (e.g. 'H', 'CNOT'), applied to the gate's qubits right after it acts
+  gate: Record<string, NoiseChannel[]>;
+}
+
 export interface Circuit {
   id: string;
   qubits: Qubit[];
 }
 
+// User-editable definition of one circuit in the system
+export interface CircuitConfig {
+  id: string;
+  numQubits: number;
+  timeline: GateOperation[];
+}
+
+// Everything a seed saves, recorded by the undo/redo history after each edit
+export interface ConfigurationSnapshot {
+  circuits: CircuitConfig[];
+  links: InterCircuitLink[];
+  interCircuit: boolean;
+  densityMatrix: boolean;
+  noiseModel: NoiseModel;
+  parameterBindings: Record<string, number>;
+  rngSeed: number;
+  teleportationConfig: TeleportationConfig;
+  wormholeConfig: WormholeConfig;
+  metric: MetricConfig;
+  tunnelingMethod: TunnelingMethod;
+  fragmentation: FragmentationConfig;
+}
+
+export interface HistoryEntry {
+  label: string;
+  snapshot: ConfigurationSnapshot;
+  // Date.now() of the edit, used to merge bursts such as slider drags
+  time: number;
+}
+
+export interface ConfigurationHistory {
+  entries: HistoryEntry[];
+  // Entry the current configuration matches; later ones can be redone
+  index: number;
+}
+
+// Standard circuits the template gallery loads into a circuit
+export type CircuitTemplateId = 'bell' | 'ghz' | 'w' | 'qft' | 'iqft' | 'grover' | 'random';
+
+export interface CircuitTemplateOptions {
+  // Basis state Grover's oracle marks, little-endian like every register index
+  marked: number;
+  // Layers of the random circuit
+  depth: number;
+}
+
+// How a link entangles its two qubits: H then CNOT (Bell pair), a bare CNOT, or CZ
+export type InterCircuitLinkOperation = 'bell' | 'cnot' | 'cz';
+
+// Entangling link between a qubit of one circuit and a qubit of another
+export interface InterCircuitLink {
+  from: string;
+  fromQubit: number;
+  to: string;
+  toQubit: number;
+  operation: InterCircuitLinkOperation;
+}
+
+// Bitstring (qubit 0 first) → number of shots that produced it
+export type ShotHistogram = Record<string, number>;
+
+export interface ShotResults {
+  shots: number;
+  // Shots asked for; more than `shots` when re-running batches were capped
+  requested: number;
+  circuits: Record<string, ShotHistogram>;
+  // Bitstrings of every circuit, space-separated in circuit order
+  joint: ShotHistogram;
+  // Every shot re-ran the circuits, because they measure mid-circuit or use classical control
+  rerun: boolean;
+}
+
 export interface FragmentedState {
   id: number;
   wormhole_position: number;
-  alpha: number;
-  beta: number;
+  // Where the fragment was sampled, from 0 at one end of the throat to 1 at the other
+  sample: number;
+  // Amplitude of the fragment routed to each circuit, in circuit order
+  channel_weights: number[];
   geometric_phase: number;
   tunneling_probability: number;
   qubits: (Qubit & { id: number })[];
@@ -39,30 +172,142 @@ export interface SpacetimePoint extends GeometryPoint {
     einstein_tensor: number;
     ricci_scalar: number;
     stress_energy: number;
+    // e^Φ: proper time over coordinate time, g_tt = -lapse²
+    lapse: number;
 }
 
 export interface MajoranaFieldPoint {
     position: number;
     amplitude: number;
+    // arg ψ1 + arg ψ2 - π/2, the phase the legacy field profile carried
     phase: number;
+    // [Re ψ1, Im ψ1, Re ψ2, Im ψ2] of the evolved field
     spinor: number[];
+    // Effective mass, curvature coupling included (kg)
     mass_term: number;
+    // Density of the zero modes here, 1 at their peak
+    zero_mode: number;
+}
+
+// Eigenstate of the Dirac Hamiltonian inside the mass gap, energy in units of ħc/b0
+export interface DiracBoundState {
+  energy: number;
+  // ⟨α_x⟩: ±1 for an isolated Jackiw–Rebbi zero mode, near 0 once a pair of them hybridizes
+  chirality: number;
+  zero_mode: boolean;
+}
+
+export interface DiracSpectrum {
+  // Mass at the ends of the throat: states below it cannot escape
+  mass_gap: number;
+  // teleport_time in units of b0/c
+  evolution_time: number;
+  bound_states: DiracBoundState[];
+}
+
+// Physical parameters of the simulated wormhole, in SI units
+export interface WormholeConfig {
+  majorana_mass: number;
+  // Negative: the exotic matter holding the throat open
+  dark_energy: number;
+  // Throat radius
+  wormhole_distance: number;
+  teleport_time: number;
+  // Points sampled along the throat
+  num_points: number;
+  dimension: number;
+  // ξ in the Majorana field's effective mass m + ξR
+  curvature_coupling: number;
+}
+
+// Spacetime the throat is built from: the Ellis drainhole, a Morris–Thorne wormhole with the
+// user's shape and redshift functions, a thin shell joining two Schwarzschild exteriors, or a
+// Teo-style rotating wormhole (Morris–Thorne plus frame dragging)
+export type MetricFamily = 'ellis' | 'morris_thorne' | 'thin_shell' | 'teo';
+
+export interface MetricConfig {
+  family: MetricFamily;
+  // Shape function b(r) and redshift function Φ(r) as expressions in r and b0 (the throat radius)
+  shape: string;
+  redshift: string;
+  // Thin shell: Schwarzschild radius of each side over the shell radius
+  compactness: number;
+  // Teo: angular momentum J/b0², dragging frames at ω = 2J/r³
+  spin: number;
+}
+
+// How transmission through the throat's potential is computed: exactly, by chaining the transfer
+// matrix of every sample, or by the WKB exponent of the classically forbidden stretches
+export type TunnelingMethod = 'transfer_matrix' | 'wkb';
+
+// Energies are in units of ħ²/(2m b0²), the kinetic energy of a wave of wavelength 2πb0
+export interface TransmissionPoint {
+  energy: number;
+  transmission: number;
+}
+
+// Peak of the transmission curve standing out from its surroundings
+export interface TransmissionResonance {
+  energy: number;
+  transmission: number;
+  // Full width at half prominence
+  width: number;
+}
+
+export interface TunnelingSpectrum {
+  method: TunnelingMethod;
+  // Highest point of the potential
+  barrier_height: number;
+  points: TransmissionPoint[];
+  resonances: TransmissionResonance[];
+}
+
+// Where along the throat fragments are placed: evenly, at seeded random points, or normally
+// distributed around the throat's centre
+export type FragmentSampling = 'uniform' | 'random' | 'gaussian';
+
+// How the circuits are split into fragments and how those are laid out
+export interface FragmentationConfig {
+  num_fragments: number;
+  // Columns of the fragment_coords grid
+  grid_width: number;
+  // Consecutive fragments are grouped into this many sectors of (nearly) equal size
+  num_sectors: number;
+  sampling: FragmentSampling;
+  // Standard deviation of the Gaussian scheme, as a fraction of the simulated throat length
+  spread: number;
+  // Seeds the random and Gaussian schemes
+  seed: number;
 }
 
 export interface QuantumWormholeType {
-  config: any;
+  config: WormholeConfig;
+  metric: MetricConfig;
+  tunneling_method: TunnelingMethod;
   throat_geometry: GeometryPoint[];
   spacetime_curvature: SpacetimePoint[];
   majorana_field: MajoranaFieldPoint[];
+  dirac_spectrum: DiracSpectrum;
   calculateQuantumTunnelingProbability(energy_state: { amplitude: number }): number;
 }
 
 export interface FragmentationSystem {
   wormhole: QuantumWormholeType;
+  circuit_ids: string[];
+  circuit_sizes: number[];
   fragmented_states: FragmentedState[];
   total_energy: number;
   average_tunneling: number;
   geometric_coherence: number;
+  tunneling_spectrum: TunnelingSpectrum;
+  fragmentation: FragmentationConfig;
+}
+
+// Fragmentation and reconstruction of the same circuits run on one metric family
+export interface MetricComparison {
+  family: MetricFamily;
+  throat_geometry: GeometryPoint[];
+  reconstruction: ReconstructionResult;
 }
 
 export interface ReconstructedQubit {
@@ -74,15 +319,20 @@ export interface ReconstructedQubit {
 }
 
 export interface ReconstructedCircuit {
+  id: string;
   qubits: ReconstructedQubit[];
   wormhole_fidelity: number;
 }
 
 export interface ReconstructionResult {
-  circuit_A: ReconstructedCircuit;
-  circuit_B: ReconstructedCircuit;
+  // One entry per circuit, in the order they were fragmented
+  circuits: ReconstructedCircuit[];
   wormhole_efficiency: number;
   average_tunneling: number;
+  tunneling_spectrum: TunnelingSpectrum;
+  dirac_spectrum: DiracSpectrum;
+  // Fragmentation the reconstruction came from
+  fragmentation: FragmentationConfig;
   geometric_corrections: {
     position: number;
     curvature: number;
@@ -90,6 +340,62 @@ export interface ReconstructionResult {
   }[];
 }
 
+export interface TeleportationConfig {
+  numQubits: number;
+  coupling: number;
+  time: number;
+  timeStep: number;
+  seed: number;
+  maxCoupling: number;
+  maxTime: number;
+  sweepPoints: number;
+}
+
+export interface TeleportationPoint {
+  coupling: number;
+  time: number;
+  fidelity: number;
+}
+
+// Outcome of the wormhole teleportation protocol, next to the geometric ReconstructionResult
+export interface TeleportationResult {
+  config: TeleportationConfig;
+  // Fidelity of the teleported message at the configured coupling and time
+  fidelity: number;
+  // The same with the coupling switched off
+  baseline: number;
+  coupling_sweep: TeleportationPoint[];
+  time_sweep: TeleportationPoint[];
+}
+
+export interface QubitEntanglement {
+  id: string;
+  // Von Neumann entropy (bits) of the qubit's reduced state
+  entropy: number;
+}
+
+export interface CircuitEntanglement {
+  id: string;
+  // S(A) in bits; null when the reduced state is too wide to diagonalize
+  entropy: number | null;
+}
+
+export interface CircuitPairEntanglement {
+  a: string;
+  b: string;
+  // I(A:B) = S(A) + S(B) - S(AB), in bits
+  mutual_information: number | null;
+  negativity: number | null;
+}
+
+export interface EntanglementReport {
+  qubits: QubitEntanglement[];
+  // Pairwise concurrence over every circuit's qubits, circuit by circuit
+  concurrence: number[][];
+  circuits: CircuitEntanglement[];
+  pairs: CircuitPairEntanglement[];
+}
+
 export interface WormholeMetrics {
   throat_radius: number;
   total_energy: number;